@@ -1,176 +1,833 @@
-import React, { useState, useRef, useCallback } from 'react';
-import type { FileInfo, PinPosition } from './types';
-import { extractVehicle, blendVehicleIntoScene } from './services/geminiService';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import type { FileInfo, ExtractedVehicle, VehicleLayer, NormalizedPlacement, VehicleDirection, VehicleVariant, BlendOptions, GenerationEntry } from './types';
+import { extractVehicle, reorientVehicle, blendVehicleIntoScene, type ProcessedCutout, type RetryInfo } from './services/geminiService';
+import { deleteCachedCutout, listCachedCutouts, type CachedCutout } from './services/cutoutCache';
+import { CancelledError, InvalidInputError } from './services/errors';
+import { composeScene, withImages } from './services/compositor';
+import { createDropPlacement, getContentRect, planComposition, reframePlacement, type RenderViewport, type Size } from './services/composition';
 import ImageUploader from './components/ImageUploader';
+import ErrorAlert, { type ErrorStage } from './components/ErrorAlert';
+import LayerList from './components/LayerList';
+import TransformOverlay from './components/TransformOverlay';
+import BatchMode from './components/BatchMode';
+import MaskEditor, { type RefinedCutout } from './components/MaskEditor';
+import PerspectiveGuide from './components/PerspectiveGuide';
+import BlendOptionsPanel from './components/BlendOptionsPanel';
+import GenerationHistory from './components/GenerationHistory';
+import ExportPanel from './components/ExportPanel';
+import BackgroundLibrary from './components/BackgroundLibrary';
+import SaveSceneForm from './components/SaveSceneForm';
+import SavedVehiclesTray, { SAVED_VEHICLE_DRAG_TYPE } from './components/SavedVehiclesTray';
+import type { ResultInspection } from './components/ResultViewer';
+import DirectionalPad, { DIRECTION_LABELS } from './components/DirectionalPad';
+import {
+    createProjectFile,
+    parseProjectFile,
+    saveAutosave,
+    loadAutosave,
+    clearAutosave,
+    PROJECT_FILE_EXTENSION,
+    type ProjectFile,
+    type ProjectSession,
+} from './services/project';
+import {
+    DEFAULT_CALIBRATION,
+    calibrateFromPlacement,
+    getPlacementAspect,
+    rescaleForDepth,
+    suggestScale,
+    type SceneCalibration,
+} from './services/perspective';
+import { DEFAULT_BLEND_OPTIONS } from './services/blendOptions';
+import { analyzeDrift, DEFAULT_DRIFT_THRESHOLD } from './services/fidelity';
+import { mergeIntoBackground } from './services/merge';
+import { DEFAULT_EXPORT_SETTINGS, type ExportSettings, type ExportSource } from './services/exporter';
+import {
+    createThumbnail,
+    deleteScene,
+    listScenes,
+    saveScene,
+    DEFAULT_SCENE_PLACEMENT,
+    type SavedScene,
+} from './services/backgroundLibrary';
+import {
+    createEditorState,
+    executeCommand,
+    undo,
+    redo,
+    getUndoLabel,
+    getRedoLabel,
+    type EditorCommand,
+    type EditorDocument,
+} from './services/editorHistory';
+import { createId } from './utils/id';
+import { runWithConcurrency } from './utils/concurrency';
+import { loadImage, downloadBlob } from './utils/image';
 
-interface ExtractedVehicle {
-    src: string;
-    width: number;
-    height: number;
+const AUTOSAVE_DELAY_MS = 1000;
+const NUDGE_STEP_PX = 1;
+const NUDGE_STEP_LARGE_PX = 10;
+const MAX_VARIANTS = 4;
+const VARIANT_CONCURRENCY = 2;
+
+// Projects saved before variants existed only carry the active image.
+const listVariants = (vehicle: ExtractedVehicle): VehicleVariant[] =>
+    vehicle.variants ?? [{ id: vehicle.activeVariantId ?? createId('variant'), direction: null, src: vehicle.src, width: vehicle.width, height: vehicle.height }];
+
+// A vehicle added with no subject yet brings its photo along as the subject.
+const addVehicle = (document: EditorDocument, vehicle: ExtractedVehicle): EditorDocument => ({
+    ...document,
+    subjectVehicle: document.subjectVehicle ?? vehicle.source ?? null,
+    vehicles: [...document.vehicles, vehicle],
+});
+
+// New layers go on top of the existing ones.
+const nextZIndex = (layers: VehicleLayer[]) => layers.reduce((max, layer) => Math.max(max, layer.zIndex), 0) + 1;
+
+// Text fields keep the browser's own undo.
+const isTextEntry = (target: EventTarget | null) =>
+    target instanceof HTMLElement
+    && (target.isContentEditable || target.matches('textarea, select, input:not([type=range]):not([type=checkbox])'));
+
+interface AppError {
+    error: unknown;
+    stage: ErrorStage;
+    /** Re-runs the failed operation with the same inputs. */
+    retry?: () => void;
 }
 
 const App: React.FC = () => {
-    const [subjectVehicle, setSubjectVehicle] = useState<FileInfo | null>(null);
-    const [backgroundScene, setBackgroundScene] = useState<FileInfo | null>(null);
+    const [editor, setEditor] = useState(() => createEditorState());
     const [isExtracting, setIsExtracting] = useState<boolean>(false);
-    const [extractedVehicle, setExtractedVehicle] = useState<ExtractedVehicle | null>(null);
-    const [vehiclePosition, setVehiclePosition] = useState<PinPosition | null>(null);
-    const [vehicleScale, setVehicleScale] = useState<number>(1);
+    const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+    const [mode, setMode] = useState<'editor' | 'batch'>('editor');
+    const [isSnappingEnabled, setIsSnappingEnabled] = useState<boolean>(true);
+    const [isPerspectiveAssist, setIsPerspectiveAssist] = useState<boolean>(false);
+    const [maskEditingId, setMaskEditingId] = useState<string | null>(null);
+    const [angleEditorId, setAngleEditorId] = useState<string | null>(null);
+    const [selectedDirection, setSelectedDirection] = useState<VehicleDirection | null>(null);
+    const [reorientingId, setReorientingId] = useState<string | null>(null);
     
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const [history, setHistory] = useState<GenerationEntry[]>([]);
+    const [activeEntryId, setActiveEntryId] = useState<string | null>(null);
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+    const [variantCount, setVariantCount] = useState<number>(1);
+    const [generationProgress, setGenerationProgress] = useState<{ done: number; total: number } | null>(null);
+    const [blendOptions, setBlendOptions] = useState<BlendOptions>(DEFAULT_BLEND_OPTIONS);
+    const [driftThreshold, setDriftThreshold] = useState<number>(DEFAULT_DRIFT_THRESHOLD);
+    const [exportingEntryId, setExportingEntryId] = useState<string | null>(null);
+    const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+    const [savedScenes, setSavedScenes] = useState<SavedScene[]>([]);
+    const [savedCutouts, setSavedCutouts] = useState<CachedCutout[]>([]);
+    const [isLibraryOpen, setIsLibraryOpen] = useState<boolean>(false);
+    const [activeSceneId, setActiveSceneId] = useState<string | null>(null);
+    // A library scene's placement zone, waiting for the first vehicle to land in it.
+    const [pendingPlacement, setPendingPlacement] = useState<NormalizedPlacement | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<AppError | null>(null);
+    const [retryNotice, setRetryNotice] = useState<string | null>(null);
     
     const backgroundContainerRef = useRef<HTMLDivElement>(null);
     const backgroundImageRef = useRef<HTMLImageElement>(null);
+    const extractionAbortRef = useRef<AbortController | null>(null);
+    const generationAbortRef = useRef<AbortController | null>(null);
+    const reorientAbortRef = useRef<AbortController | null>(null);
+    const projectInputRef = useRef<HTMLInputElement>(null);
+    const [viewport, setViewport] = useState<RenderViewport | null>(null);
+    const [hasRestored, setHasRestored] = useState<boolean>(false);
+
+    const { subjectVehicle, backgroundScene, vehicles, layers, calibration } = editor.document;
+    const undoLabel = getUndoLabel(editor);
+    const redoLabel = getRedoLabel(editor);
+
+    /** Applies an undoable change to the inputs, vehicles, layers or calibration. */
+    const execute = useCallback((command: EditorCommand) => setEditor(prev => executeCommand(prev, command)), []);
+
+    const updateLayers = (label: string, update: (layers: VehicleLayer[]) => VehicleLayer[], mergeKey?: string) => execute({
+        label,
+        mergeKey,
+        apply: document => {
+            const next = update(document.layers);
+            return next === document.layers ? document : { ...document, layers: next };
+        },
+    });
+
+    const updateVehicles = (label: string, update: (vehicles: ExtractedVehicle[]) => ExtractedVehicle[]) => execute({
+        label,
+        apply: document => ({ ...document, vehicles: update(document.vehicles) }),
+    });
+
+    const updateCalibration = (label: string, next: SceneCalibration, mergeKey?: string) => execute({
+        label,
+        mergeKey,
+        apply: document => ({ ...document, calibration: next }),
+    });
+
+    const handleUndo = () => setEditor(undo);
+    const handleRedo = () => setEditor(redo);
+
+    // Dialogs sit over the editor, so the shortcuts wait until they close.
+    const isDialogOpen = !!maskEditingId || isLibraryOpen || !!exportingEntryId;
+
+    useEffect(() => {
+        if (mode !== 'editor' || isDialogOpen) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const key = e.key.toLowerCase();
+            if (!(e.ctrlKey || e.metaKey) || e.altKey || (key !== 'z' && key !== 'y')) return;
+            if (isTextEntry(e.target)) return;
+            e.preventDefault();
+            setEditor(key === 'y' || e.shiftKey ? redo : undo);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [mode, isDialogOpen]);
+
+    const primaryVehicle = vehicles[0] ?? null;
+    const contentRect = viewport ? getContentRect(viewport) : null;
+    const selectedLayer = layers.find(layer => layer.id === selectedLayerId) ?? null;
+    const maskEditingVehicle = vehicles.find(v => v.id === maskEditingId) ?? null;
+    const exportingEntry = history.find(entry => entry.id === exportingEntryId) ?? null;
+    const activeScene = savedScenes.find(scene => scene.id === activeSceneId) ?? null;
+    const unusedSavedCutouts = savedCutouts.filter(saved => !vehicles.some(v => v.source?.base64 === saved.source.base64));
+    const backgroundSize = backgroundScene?.width && backgroundScene.height
+        ? { width: backgroundScene.width, height: backgroundScene.height }
+        : null;
+
+    const getLayerAspect = (layer: VehicleLayer) => {
+        const vehicle = vehicles.find(v => v.id === layer.vehicleId);
+        return vehicle && backgroundSize ? getPlacementAspect(vehicle, backgroundSize) : null;
+    };
+
+    // Perspective assist resizes vehicles as they move toward or away from the horizon.
+    const scaleForDepth = (layer: VehicleLayer, y: number) => {
+        const aspect = getLayerAspect(layer);
+        return aspect === null ? layer.placement.scale : rescaleForDepth(layer.placement.scale, layer.placement.y, y, aspect, calibration);
+    };
+    const selectedAspect = selectedLayer ? getLayerAspect(selectedLayer) : null;
+
+    const handleRetry = ({ attempt, maxRetries, delayMs }: RetryInfo) => {
+        setRetryNotice(`Request failed, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${maxRetries})...`);
+    };
+
+    const createVehicle = (name: string, cutout: ProcessedCutout, source: FileInfo): ExtractedVehicle => {
+        const original: VehicleVariant = { id: createId('variant'), direction: null, ...cutout };
+        return {
+            id: createId('vehicle'),
+            name,
+            ...cutout,
+            source,
+            variants: [original],
+            activeVariantId: original.id,
+        };
+    };
+
+    const refreshSavedCutouts = () => listCachedCutouts()
+        .then(setSavedCutouts)
+        .catch(e => console.warn("Could not load saved vehicles.", e));
+
+    useEffect(() => {
+        refreshSavedCutouts();
+    }, []);
+
+    /**
+     * Adds a previously extracted car without calling the model. With no
+     * subject yet, its photo becomes the subject.
+     */
+    const handleUseSavedVehicle = (saved: CachedCutout) => {
+        if (vehicles.some(v => v.source?.base64 === saved.source.base64)) return;
+        const vehicle = createVehicle(saved.name, saved.cutout, saved.source);
+        execute({ label: 'Add vehicle', apply: document => addVehicle(document, vehicle) });
+    };
+
+    const handleForgetSavedVehicle = (key: string) => {
+        deleteCachedCutout(key)
+            .then(refreshSavedCutouts)
+            .catch(e => console.warn("Could not remove the saved vehicle.", e));
+    };
+
+    const addExtractedVehicle = async (fileInfo: FileInfo) => {
+        extractionAbortRef.current?.abort();
+        const controller = new AbortController();
+        extractionAbortRef.current = controller;
 
-    const handleSubjectUpload = async (fileInfo: FileInfo) => {
-        setSubjectVehicle(fileInfo);
-        setExtractedVehicle(null);
-        setGeneratedImage(null);
         setError(null);
         setIsExtracting(true);
         try {
-            const resultSrc = await extractVehicle(fileInfo);
-            
-            const img = new Image();
-            img.onload = () => {
-                setExtractedVehicle({
-                    src: resultSrc,
-                    width: img.naturalWidth,
-                    height: img.naturalHeight,
-                });
-
-                const bgImage = backgroundImageRef.current;
-                const container = backgroundContainerRef.current;
-                const backgroundRenderWidth = bgImage?.offsetWidth || container?.offsetWidth || 512;
-                const baseScale = (backgroundRenderWidth / 4) / img.naturalWidth;
-                setVehicleScale(baseScale);
-            }
-            img.src = resultSrc;
-
-        } catch (e: any) {
+            const cutout = await extractVehicle(fileInfo, { signal: controller.signal, onRetry: handleRetry });
+            const vehicle = createVehicle(fileInfo.name, cutout, fileInfo);
+            execute({ label: 'Add vehicle', apply: document => addVehicle(document, vehicle) });
+            refreshSavedCutouts();
+        } catch (e) {
+            if (e instanceof CancelledError) return;
             console.error(e);
-            setError(`Failed to extract vehicle: ${e.message}`);
+            setError({ error: e, stage: 'extraction', retry: () => addExtractedVehicle(fileInfo) });
         } finally {
-            setIsExtracting(false);
+            if (extractionAbortRef.current === controller) {
+                extractionAbortRef.current = null;
+                setIsExtracting(false);
+                setRetryNotice(null);
+            }
         }
     };
 
-    const handleBackgroundUpload = (fileInfo: FileInfo) => {
-        setBackgroundScene(fileInfo);
-        setVehiclePosition(null); // Reset position on new background
-        setGeneratedImage(null);
+    const handleSubjectUpload = async (fileInfo: FileInfo) => {
+        execute({
+            label: 'Replace subject vehicle',
+            apply: document => ({ ...document, subjectVehicle: fileInfo, vehicles: [], layers: [] }),
+        });
+        setSelectedLayerId(null);
+        await addExtractedVehicle(fileInfo);
+    };
+
+    /**
+     * Swaps the background as one undoable step. Placements are stored
+     * relative to the background, so placed vehicles keep their spots.
+     */
+    const handleBackgroundUpload = (fileInfo: FileInfo, sceneCalibration: SceneCalibration = DEFAULT_CALIBRATION) => {
+        execute({
+            label: 'Replace background',
+            apply: document => ({ ...document, backgroundScene: fileInfo, calibration: sceneCalibration }),
+        });
+        // Results were blended into the old background, so they don't carry over.
+        // Undo restores the composition but not these.
+        setHistory([]);
+        setActiveEntryId(null);
+        setCompareIds([]);
+        setActiveSceneId(null);
+        setPendingPlacement(null);
         setError(null);
     };
+
+    const refreshScenes = () => listScenes()
+        .then(setSavedScenes)
+        .catch(e => console.warn("Could not load the background library.", e));
+
+    useEffect(() => {
+        refreshScenes();
+    }, []);
+
+    /** Uses a library background with its saved settings; the first vehicle is placed in its zone. */
+    const handleSelectScene = (scene: SavedScene) => {
+        handleBackgroundUpload(scene.file, scene.calibration ?? DEFAULT_CALIBRATION);
+        setBlendOptions(scene.blendOptions);
+        setIsPerspectiveAssist(!!scene.calibration);
+        setActiveSceneId(scene.id);
+        setPendingPlacement(scene.placement);
+        setIsLibraryOpen(false);
+    };
+
+    // Only one vehicle moves into the zone: the selected one, or else the first
+    // vehicle, which gets a new layer if it isn't placed. Other layers stay put.
+    useEffect(() => {
+        const vehicle = vehicles[0];
+        if (!pendingPlacement || !vehicle) return;
+        const target = layers.find(layer => layer.id === selectedLayerId) ?? layers.find(layer => layer.vehicleId === vehicle.id);
+        const layerId = target?.id ?? createId('layer');
+        updateLayers('Place vehicle', prev => target
+            ? prev.map(layer => layer.id === target.id ? { ...layer, placement: pendingPlacement } : layer)
+            : [...prev, { id: layerId, vehicleId: vehicle.id, placement: pendingPlacement, zIndex: nextZIndex(prev) }]);
+        setSelectedLayerId(layerId);
+        setPendingPlacement(null);
+    }, [pendingPlacement, vehicles]);
+
+    const handleAddToLibrary = async (file: FileInfo) => {
+        const now = new Date().toISOString();
+        await saveScene({
+            id: createId('scene'),
+            name: file.name.replace(/\.[^.]+$/, ''),
+            tags: [],
+            file,
+            thumbnail: await createThumbnail(file),
+            placement: DEFAULT_SCENE_PLACEMENT,
+            blendOptions: DEFAULT_BLEND_OPTIONS,
+            calibration: null,
+            createdAt: now,
+            updatedAt: now,
+        });
+        await refreshScenes();
+    };
+
+    /** Saves the current background, or updates its library entry, with the editor's current setup. */
+    const handleSaveScene = async (name: string, tags: string[]) => {
+        if (!backgroundScene) return;
+        const existing = savedScenes.find(scene => scene.id === activeSceneId);
+        const now = new Date().toISOString();
+        const scene: SavedScene = {
+            id: existing?.id ?? createId('scene'),
+            name,
+            tags,
+            file: backgroundScene,
+            thumbnail: existing?.thumbnail ?? await createThumbnail(backgroundScene),
+            placement: (selectedLayer ?? layers[0])?.placement ?? existing?.placement ?? DEFAULT_SCENE_PLACEMENT,
+            blendOptions,
+            calibration: isPerspectiveAssist ? calibration : null,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        };
+        await saveScene(scene);
+        setActiveSceneId(scene.id);
+        await refreshScenes();
+    };
+
+    const handleDeleteScene = (sceneId: string) => {
+        deleteScene(sceneId)
+            .then(refreshScenes)
+            .catch(e => console.warn("Could not delete the library scene.", e));
+        setActiveSceneId(prev => prev === sceneId ? null : prev);
+    };
     
     const handleVehicleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
         e.preventDefault();
+        if (!backgroundContainerRef.current || !viewport) return;
+        const saved = savedCutouts.find(c => c.key === e.dataTransfer.getData(SAVED_VEHICLE_DRAG_TYPE));
         const vehicleId = e.dataTransfer.getData('application/vehicle-id');
-        if (!backgroundContainerRef.current || vehicleId !== 'extracted-vehicle') return;
+        const existing = saved
+            ? vehicles.find(v => v.source?.base64 === saved.source.base64)
+            : vehicles.find(v => v.id === vehicleId);
+        // A saved car that isn't in the panel yet is added and placed in one step.
+        const vehicle = existing ?? (saved && createVehicle(saved.name, saved.cutout, saved.source));
+        if (!vehicle) return;
 
         const rect = backgroundContainerRef.current.getBoundingClientRect();
-        const x = e.clientX - rect.left;
-        const y = e.clientY - rect.top;
+        const placement = createDropPlacement({ x: e.clientX - rect.left, y: e.clientY - rect.top }, viewport);
+
+        const layerId = createId('layer');
+        execute({
+            label: 'Place vehicle',
+            apply: document => {
+                const next = existing ? document : addVehicle(document, vehicle);
+                return {
+                    ...next,
+                    layers: [...next.layers, {
+                        id: layerId,
+                        vehicleId: vehicle.id,
+                        placement,
+                        zIndex: nextZIndex(next.layers),
+                    }],
+                };
+            },
+        });
+        setSelectedLayerId(layerId);
+    }, [vehicles, viewport, savedCutouts, execute]);
+
+    /** `mergeKey` groups a continuous drag or slider movement into one undo step. */
+    const updatePlacement = (layerId: string, changes: Partial<NormalizedPlacement>, label: string, mergeKey?: string) => {
+        updateLayers(label, prev => prev.map(layer => layer.id === layerId ? { ...layer, placement: { ...layer.placement, ...changes } } : layer), mergeKey);
+    };
+
+    const handleSelectLayer = (layerId: string) => {
+        setSelectedLayerId(layerId);
+        // Keep keyboard nudging working after a pointer interaction.
+        backgroundContainerRef.current?.focus({ preventScroll: true });
+    };
+
+    const handleCanvasKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (!selectedLayer || !contentRect) return;
+
+        const step = e.shiftKey ? NUDGE_STEP_LARGE_PX : NUDGE_STEP_PX;
+        const nudges: Record<string, [number, number]> = {
+            ArrowLeft: [-step, 0],
+            ArrowRight: [step, 0],
+            ArrowUp: [0, -step],
+            ArrowDown: [0, step],
+        };
+
+        if (e.key in nudges) {
+            e.preventDefault();
+            const [dx, dy] = nudges[e.key];
+            const y = selectedLayer.placement.y + dy / contentRect.height;
+            updatePlacement(selectedLayer.id, {
+                x: selectedLayer.placement.x + dx / contentRect.width,
+                y,
+                scale: isPerspectiveAssist ? scaleForDepth(selectedLayer, y) : selectedLayer.placement.scale,
+            }, 'Move vehicle', `nudge:${selectedLayer.id}`);
+        } else if (e.key === 'Delete' || e.key === 'Backspace') {
+            e.preventDefault();
+            handleRemoveLayer(selectedLayer.id);
+        } else if (e.key === 'Escape') {
+            setSelectedLayerId(null);
+        }
+    };
 
-        setVehiclePosition({ x, y });
+    // Its own undo step, never merged into a drag that happened just before.
+    const handleFlipLayer = (layerId: string) => {
+        updateLayers('Flip vehicle', prev => prev.map(layer => layer.id === layerId ? { ...layer, placement: { ...layer.placement, flipX: !layer.placement.flipX } } : layer));
+    };
+
+    const handleRemoveLayer = (layerId: string) => {
+        updateLayers('Remove vehicle', prev => prev.filter(layer => layer.id !== layerId));
+        setSelectedLayerId(prev => prev === layerId ? null : prev);
+    };
+
+    const handleMoveLayer = (layerId: string, direction: 'forward' | 'backward') => {
+        updateLayers(direction === 'forward' ? 'Bring forward' : 'Send backward', prev => {
+            const ordered = [...prev].sort((a, b) => a.zIndex - b.zIndex);
+            const index = ordered.findIndex(layer => layer.id === layerId);
+            const swapIndex = direction === 'forward' ? index + 1 : index - 1;
+            if (index < 0 || swapIndex < 0 || swapIndex >= ordered.length) return prev;
+
+            const current = ordered[index];
+            const neighbour = ordered[swapIndex];
+            return prev.map(layer => {
+                if (layer.id === current.id) return { ...layer, zIndex: neighbour.zIndex };
+                if (layer.id === neighbour.id) return { ...layer, zIndex: current.zIndex };
+                return layer;
+            });
+        });
+    };
+
+    const handleApplyMask = (vehicleId: string, refined: RefinedCutout) => {
+        setMaskEditingId(null);
+        const image = { src: refined.src, width: refined.width, height: refined.height };
+        const variantId = createId('variant');
+        execute({
+            label: 'Edit mask',
+            apply: document => {
+                const vehicle = document.vehicles.find(v => v.id === vehicleId);
+                if (!vehicle) return document;
+                const { backgroundScene: scene } = document;
+                // A new variant, so results made with the old cutout keep pointing at it.
+                const variants = listVariants(vehicle);
+                const edited = variants.find(variant => variant.id === vehicle.activeVariantId) ?? variants[0];
+                const variant: VehicleVariant = { id: variantId, direction: edited.direction, ...image, replaces: edited.id };
+                return {
+                    ...document,
+                    vehicles: document.vehicles.map(v => v.id === vehicleId
+                        ? { ...v, ...image, variants: [...variants, variant], activeVariantId: variant.id }
+                        : v),
+                    // Placed copies keep their on-scene position and size despite the new crop.
+                    layers: scene?.width && scene.height
+                        ? document.layers.map(layer => layer.vehicleId === vehicleId
+                            ? { ...layer, placement: reframePlacement(layer.placement, { width: scene.width!, height: scene.height! }, vehicle, refined.crop) }
+                            : layer)
+                        : document.layers,
+                };
+            },
+        });
+    };
+
+    const handleReorient = async (vehicle: ExtractedVehicle, direction: VehicleDirection) => {
+        reorientAbortRef.current?.abort();
+        const controller = new AbortController();
+        reorientAbortRef.current = controller;
+
+        setError(null);
+        setReorientingId(vehicle.id);
+        try {
+            // New angles always start from the original extraction, as last mask-edited, so they don't drift.
+            const variants = listVariants(vehicle);
+            const base = [...variants].reverse().find(variant => variant.direction === null) ?? variants[0];
+            const cutout = await reorientVehicle(
+                { name: vehicle.name, type: 'image/png', size: 0, base64: base.src, width: base.width, height: base.height },
+                direction,
+                { signal: controller.signal, onRetry: handleRetry },
+            );
+            const variant: VehicleVariant = { id: createId('variant'), direction, ...cutout };
+
+            updateVehicles('Render angle', prev => prev.map(v => v.id === vehicle.id
+                ? { ...v, ...cutout, variants: [...listVariants(v), variant], activeVariantId: variant.id }
+                : v));
+            setAngleEditorId(null);
+        } catch (e) {
+            if (e instanceof CancelledError) return;
+            console.error(e);
+            setError({ error: e, stage: 'reorientation', retry: () => handleReorient(vehicle, direction) });
+        } finally {
+            if (reorientAbortRef.current === controller) {
+                reorientAbortRef.current = null;
+                setReorientingId(null);
+                setRetryNotice(null);
+            }
+        }
+    };
+
+    const handleSelectVariant = (vehicleId: string, variant: VehicleVariant) => {
+        updateVehicles('Change angle', prev => prev.map(v => v.id === vehicleId
+            ? { ...v, src: variant.src, width: variant.width, height: variant.height, activeVariantId: variant.id }
+            : v));
+    };
+
+    const openAngleEditor = (vehicleId: string) => {
+        setAngleEditorId(prev => prev === vehicleId ? null : vehicleId);
+        setSelectedDirection(null);
+    };
+
+    const measureViewport = useCallback(() => {
+        const img = backgroundImageRef.current;
+        if (!img || !img.naturalWidth || !img.offsetWidth) return;
+        setViewport({
+            width: img.offsetWidth,
+            height: img.offsetHeight,
+            naturalWidth: img.naturalWidth,
+            naturalHeight: img.naturalHeight,
+        });
     }, []);
 
-    const handleGenerate = async () => {
-        if (!extractedVehicle?.src || !backgroundScene || !vehiclePosition) {
-            setError("Please upload both images and place the vehicle on the scene.");
+    // The overlay is laid out from the rendered background size, so follow it
+    // through window resizes as well as image loads.
+    useEffect(() => {
+        const img = backgroundImageRef.current;
+        if (!img) return;
+        const observer = new ResizeObserver(() => measureViewport());
+        observer.observe(img);
+        return () => observer.disconnect();
+    }, [backgroundScene, subjectVehicle, mode, measureViewport]);
+
+    const buildSession = (): ProjectSession => ({
+        subjectVehicle,
+        backgroundScene,
+        vehicles,
+        layers,
+        history,
+        activeEntryId,
+        blendOptions,
+        calibration,
+        driftThreshold,
+    });
+
+    const applyProject = (project: ProjectFile) => {
+        extractionAbortRef.current?.abort();
+        generationAbortRef.current?.abort();
+        reorientAbortRef.current?.abort();
+        // Undo doesn't reach back past a project load.
+        setEditor(createEditorState({
+            subjectVehicle: project.subjectVehicle,
+            backgroundScene: project.backgroundScene,
+            vehicles: project.vehicles,
+            layers: project.layers,
+            calibration: project.calibration ?? DEFAULT_CALIBRATION,
+        }));
+        setSelectedLayerId(null);
+        setHistory(project.history);
+        setActiveEntryId(project.activeEntryId);
+        setCompareIds([]);
+        setBlendOptions(project.blendOptions);
+        setDriftThreshold(project.driftThreshold ?? DEFAULT_DRIFT_THRESHOLD);
+        setActiveSceneId(null);
+        setPendingPlacement(null);
+        setError(null);
+    };
+
+    const handleNewProject = () => {
+        applyProject(createProjectFile({
+            subjectVehicle: null,
+            backgroundScene: null,
+            vehicles: [],
+            layers: [],
+            history: [],
+            activeEntryId: null,
+            blendOptions: DEFAULT_BLEND_OPTIONS,
+        }));
+        clearAutosave().catch(e => console.warn("Could not clear autosave.", e));
+    };
+
+    const handleSaveProject = () => {
+        const project = createProjectFile(buildSession());
+        const name = (subjectVehicle?.name ?? 'vehicle-swap').replace(/\.[^.]+$/, '');
+        downloadBlob(new Blob([JSON.stringify(project)], { type: 'application/json' }), `${name}${PROJECT_FILE_EXTENSION}`);
+    };
+
+    const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            applyProject(parseProjectFile(await file.text()));
+        } catch (err) {
+            console.error(err);
+            setError({ error: err, stage: 'project' });
+        }
+    };
+
+    useEffect(() => {
+        loadAutosave()
+            .then(project => {
+                if (project) applyProject(project);
+            })
+            .catch(e => console.warn("Could not restore autosave.", e))
+            .finally(() => setHasRestored(true));
+    }, []);
+
+    useEffect(() => {
+        if (!hasRestored) return;
+        const timer = setTimeout(() => {
+            const session = buildSession();
+            const isEmpty = !session.subjectVehicle && !session.backgroundScene && session.vehicles.length === 0;
+            const save = isEmpty ? clearAutosave() : saveAutosave(createProjectFile(session));
+            save.catch(e => console.warn("Autosave failed.", e));
+        }, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [hasRestored, subjectVehicle, backgroundScene, vehicles, layers, history, activeEntryId, blendOptions, calibration, driftThreshold]);
+
+    /**
+     * Draws the given layers over the background with each vehicle's chosen
+     * variant: the canvas composite the model is asked to blend.
+     */
+    const renderComposition = async (scene: FileInfo, usedLayers: VehicleLayer[], variantIds: Record<string, string>) => {
+        const usedVehicles = vehicles.filter(v => usedLayers.some(layer => layer.vehicleId === v.id));
+        const imageFor = (vehicle: ExtractedVehicle) => vehicle.variants?.find(v => v.id === variantIds[vehicle.id])?.src ?? vehicle.src;
+
+        const [bgImg, vehicleImgs] = await Promise.all([
+            loadImage(scene.base64),
+            Promise.all(usedVehicles.map(v => loadImage(imageFor(v)))),
+        ]);
+        const vehicleImages = new Map<string, HTMLImageElement>(usedVehicles.map((v, i) => [v.id, vehicleImgs[i]]));
+        const vehicleSizes = new Map<string, Size>(usedVehicles.map((v, i) => [v.id, { width: vehicleImgs[i].naturalWidth, height: vehicleImgs[i].naturalHeight }]));
+
+        const background = { width: bgImg.naturalWidth, height: bgImg.naturalHeight };
+        const draws = withImages(planComposition(background, usedLayers, vehicleSizes), vehicleImages);
+
+        return { composite: composeScene(bgImg, draws), draws, background };
+    };
+
+    /**
+     * Blends the composition `count` times, adding each result to the history.
+     * Re-running an entry uses its own layers, vehicle variants and options
+     * instead of the editor's current ones.
+     */
+    const handleGenerate = async (count: number = variantCount, source?: GenerationEntry) => {
+        const usedLayers = source?.layers ?? layers;
+        // Snapshot the options so later edits in the panel don't relabel these results.
+        const usedOptions = source?.blendOptions ?? blendOptions;
+        if (usedLayers.length === 0 || !backgroundScene) {
+            setError({
+                error: new InvalidInputError("Please upload both images and place at least one vehicle on the scene."),
+                stage: 'generation',
+            });
             return;
         }
 
+        generationAbortRef.current?.abort();
+        const controller = new AbortController();
+        generationAbortRef.current = controller;
+
         setError(null);
         setIsLoading(true);
-        setGeneratedImage(null);
+        setGenerationProgress({ done: 0, total: count });
 
         try {
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d');
-            if (!ctx) throw new Error("Could not create canvas context.");
-
-            const bgImg = new Image();
-            bgImg.src = backgroundScene.base64;
-
-            const vehicleImg = new Image();
-            vehicleImg.src = extractedVehicle.src;
-            
-            await Promise.all([
-                new Promise(resolve => bgImg.onload = resolve),
-                new Promise(resolve => vehicleImg.onload = resolve)
-            ]);
-            
-            canvas.width = bgImg.naturalWidth;
-            canvas.height = bgImg.naturalHeight;
-
-            // Draw background
-            ctx.drawImage(bgImg, 0, 0);
-
-            // Calculate vehicle position on the original image dimensions
-            const renderedBg = backgroundImageRef.current!;
-            const { naturalWidth: originalWidth, naturalHeight: originalHeight } = bgImg;
-            const { offsetWidth: renderedWidth, offsetHeight: renderedHeight } = renderedBg;
-
-            const originalAspectRatio = originalWidth / originalHeight;
-            const containerAspectRatio = renderedWidth / renderedHeight;
-
-            let actualRenderedWidth, actualRenderedHeight;
-            if (originalAspectRatio > containerAspectRatio) {
-                actualRenderedWidth = renderedWidth;
-                actualRenderedHeight = renderedWidth / originalAspectRatio;
-            } else {
-                actualRenderedHeight = renderedHeight;
-                actualRenderedWidth = renderedHeight * originalAspectRatio;
+            const usedVehicles = vehicles.filter(v => usedLayers.some(layer => layer.vehicleId === v.id));
+            if (usedVehicles.length === 0) {
+                throw new InvalidInputError("The vehicles used in this generation are no longer available.");
             }
+            const variantIds: Record<string, string> = {};
+            for (const vehicle of usedVehicles) {
+                const variantId = source ? source.variantIds[vehicle.id] : vehicle.activeVariantId;
+                if (variantId) variantIds[vehicle.id] = variantId;
+            }
+            const { composite: compositeFileInfo, draws, background } = await renderComposition(backgroundScene, usedLayers, variantIds);
 
-            const paddingX = (renderedWidth - actualRenderedWidth) / 2;
-            const paddingY = (renderedHeight - actualRenderedHeight) / 2;
-
-            const pinXOnImage = vehiclePosition.x - paddingX;
-            const pinYOnImage = vehiclePosition.y - paddingY;
-
-            const relativeX = pinXOnImage / actualRenderedWidth;
-            const relativeY = pinYOnImage / actualRenderedHeight;
-            
-            const finalX = relativeX * originalWidth;
-            const finalY = relativeY * originalHeight;
-
-            const vehicleDrawWidth = vehicleImg.naturalWidth * vehicleScale;
-            const vehicleDrawHeight = vehicleImg.naturalHeight * vehicleScale;
-            
-            // Draw vehicle
-            ctx.drawImage(
-                vehicleImg,
-                finalX - vehicleDrawWidth / 2,
-                finalY - vehicleDrawHeight / 2,
-                vehicleDrawWidth,
-                vehicleDrawHeight
-            );
-
-            const compositeBase64 = canvas.toDataURL('image/png');
-            const compositeFileInfo: FileInfo = {
-                name: 'composite.png',
-                type: 'image/png',
-                size: 0,
-                base64: compositeBase64,
-                width: canvas.width,
-                height: canvas.height,
-            };
-
-            const result = await blendVehicleIntoScene(compositeFileInfo);
-            setGeneratedImage(result);
+            // Every variant blends the same composite; only the model's sampling differs.
+            let failure: unknown = null;
+            await runWithConcurrency(Array.from({ length: count }, (_, i) => i), VARIANT_CONCURRENCY, async () => {
+                if (controller.signal.aborted) return;
+                try {
+                    const blended = await blendVehicleIntoScene(compositeFileInfo, usedOptions, { signal: controller.signal, onRetry: handleRetry });
+                    const result = usedOptions.preserveBackground
+                        ? await mergeIntoBackground(backgroundScene.base64, blended, draws)
+                        : blended;
+                    // A failed drift check shouldn't cost the user a paid-for result.
+                    const drift = await analyzeDrift(compositeFileInfo.base64, result, draws, background)
+                        .then(analysis => analysis.score)
+                        .catch(e => {
+                            console.warn("Couldn't measure background drift.", e);
+                            return undefined;
+                        });
+                    const entry: GenerationEntry = {
+                        id: createId('generation'),
+                        src: result,
+                        blendOptions: usedOptions,
+                        createdAt: new Date().toISOString(),
+                        layers: usedLayers,
+                        variantIds,
+                        favorite: false,
+                        drift,
+                    };
+                    setHistory(prev => [...prev, entry]);
+                    setActiveEntryId(entry.id);
+                    setCompareIds([]);
+                } catch (e) {
+                    if (e instanceof CancelledError) return;
+                    console.error(e);
+                    failure = e;
+                } finally {
+                    setGenerationProgress(prev => prev && { ...prev, done: prev.done + 1 });
+                }
+            });
+            if (failure) setError({ error: failure, stage: 'generation', retry: () => handleGenerate(count, source) });
 
-        } catch (e: any) {
+        } catch (e) {
+            if (e instanceof CancelledError) return;
             console.error(e);
-            setError(`An error occurred during generation: ${e.message}`);
+            setError({ error: e, stage: 'generation', retry: () => handleGenerate(count, source) });
         } finally {
-            setIsLoading(false);
+            // A newer run may have replaced this one; leave its state alone.
+            if (generationAbortRef.current === controller) {
+                generationAbortRef.current = null;
+                setIsLoading(false);
+                setGenerationProgress(null);
+                setRetryNotice(null);
+            }
+        }
+    };
+
+    /** Rebuilds an entry's composite for the before/after and diff views, recording its drift score. */
+    const handleInspectEntry = async (entry: GenerationEntry): Promise<ResultInspection> => {
+        if (!backgroundScene) {
+            throw new InvalidInputError("The background for this result is no longer loaded.");
         }
+        const { composite, draws, background } = await renderComposition(backgroundScene, entry.layers, entry.variantIds);
+        const analysis = await analyzeDrift(composite.base64, entry.src, draws, background);
+        setHistory(prev => prev.map(e => e.id === entry.id ? { ...e, drift: analysis.score } : e));
+        return { composite: composite.base64, analysis };
+    };
+
+    const handleToggleFavorite = (entryId: string) => {
+        setHistory(prev => prev.map(entry => entry.id === entryId ? { ...entry, favorite: !entry.favorite } : entry));
     };
+
+    const handleToggleCompare = (entryId: string) => {
+        setCompareIds(prev => prev.includes(entryId) ? prev.filter(id => id !== entryId) : [...prev, entryId].slice(-2));
+    };
+
+    const handleRemoveEntry = (entryId: string) => {
+        setHistory(prev => prev.filter(entry => entry.id !== entryId));
+        setActiveEntryId(prev => prev === entryId ? null : prev);
+        setCompareIds(prev => prev.filter(id => id !== entryId));
+    };
+
+    /** Puts an entry's placement, vehicle angles and options back into the editor. */
+    const handleLoadEntry = (entry: GenerationEntry) => {
+        execute({
+            label: 'Load result setup',
+            apply: document => ({
+                ...document,
+                layers: entry.layers,
+                vehicles: document.vehicles.map(vehicle => {
+                    const variant = vehicle.variants?.find(v => v.id === entry.variantIds[vehicle.id]);
+                    return variant
+                        ? { ...vehicle, src: variant.src, width: variant.width, height: variant.height, activeVariantId: variant.id }
+                        : vehicle;
+                }),
+            }),
+        });
+        setSelectedLayerId(null);
+        setBlendOptions(entry.blendOptions);
+    };
+
+    /** The input names and settings behind an entry, for export file names and metadata. */
+    const exportSourceFor = (entry: GenerationEntry, scene: FileInfo): ExportSource => ({
+        vehicleNames: [...new Set(entry.layers.map(layer => vehicles.find(v => v.id === layer.vehicleId)?.name ?? 'vehicle'))],
+        backgroundName: scene.name,
+        blendOptions: entry.blendOptions,
+        createdAt: entry.createdAt,
+    });
+
+    const handleCancelExtraction = () => extractionAbortRef.current?.abort();
+    const handleCancelGeneration = () => generationAbortRef.current?.abort();
+    const handleCancelReorient = () => reorientAbortRef.current?.abort();
     
-    const isGenerateDisabled = !extractedVehicle?.src || !backgroundScene || !vehiclePosition || isLoading;
+    const isGenerateDisabled = layers.length === 0 || !backgroundScene || isLoading;
 
     const renderContent = () => {
         if (!subjectVehicle || !backgroundScene) {
@@ -183,18 +840,30 @@ const App: React.FC = () => {
                                     <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center text-white z-20 rounded-lg">
                                         <svg className="animate-spin h-8 w-8 text-white mb-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
                                         <p className="text-lg font-semibold">Extracting Vehicle...</p>
+                                        {retryNotice && <p className="text-sm text-yellow-300 mt-1 px-4 text-center">{retryNotice}</p>}
+                                        <button
+                                            onClick={handleCancelExtraction}
+                                            className="mt-4 px-4 py-2 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white"
+                                        >
+                                            Cancel
+                                        </button>
                                     </div>
                                 )}
-                                <img src={extractedVehicle ? extractedVehicle.src : subjectVehicle.base64} alt={subjectVehicle.name} className="max-w-full max-h-48 object-contain rounded-md mb-4" />
-                                <h3 className="text-lg font-semibold text-white">{extractedVehicle ? "Extracted Vehicle" : "Subject Vehicle"}</h3>
+                                <img src={primaryVehicle ? primaryVehicle.src : subjectVehicle.base64} alt={subjectVehicle.name} className="max-w-full max-h-48 object-contain rounded-md mb-4" />
+                                <h3 className="text-lg font-semibold text-white">{primaryVehicle ? "Extracted Vehicle" : "Subject Vehicle"}</h3>
                                 <p className="text-sm text-gray-400">{subjectVehicle.name}</p>
                             </div>
                         ) : (
-                             <ImageUploader
-                                onImageUpload={handleSubjectUpload}
-                                title="1. Upload Subject Vehicle"
-                                description="Drag & drop or click to upload"
-                            />
+                            <div className="h-full flex flex-col gap-2">
+                                <div className="flex-1">
+                                    <ImageUploader
+                                        onImageUpload={handleSubjectUpload}
+                                        title="1. Upload Subject Vehicle"
+                                        description="Drag & drop or click to upload"
+                                    />
+                                </div>
+                                <SavedVehiclesTray cutouts={savedCutouts} onUse={handleUseSavedVehicle} onRemove={handleForgetSavedVehicle} />
+                            </div>
                         )}
                     </div>
                     <div className="min-h-[250px] md:min-h-[350px]">
@@ -205,11 +874,21 @@ const App: React.FC = () => {
                                 <p className="text-sm text-gray-400">{backgroundScene.name}</p>
                              </div>
                         ) : (
-                            <ImageUploader
-                                onImageUpload={handleBackgroundUpload}
-                                title="2. Upload Background Scene"
-                                description="Drag & drop or click to upload"
-                            />
+                            <div className="h-full flex flex-col gap-2">
+                                <div className="flex-1">
+                                    <ImageUploader
+                                        onImageUpload={(fileInfo) => handleBackgroundUpload(fileInfo)}
+                                        title="2. Upload Background Scene"
+                                        description="Drag & drop or click to upload"
+                                    />
+                                </div>
+                                <button
+                                    onClick={() => setIsLibraryOpen(true)}
+                                    className="px-4 py-2 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200"
+                                >
+                                    Choose from Library ({savedScenes.length})
+                                </button>
+                            </div>
                         )}
                     </div>
                 </div>
@@ -223,85 +902,309 @@ const App: React.FC = () => {
                     <div className="lg:col-span-4 order-2 lg:order-1">
                         <div 
                             ref={backgroundContainerRef}
-                            className="relative w-full mx-auto bg-gray-800 rounded-lg overflow-hidden shadow-2xl"
+                            className="relative w-full mx-auto bg-gray-800 rounded-lg overflow-hidden shadow-2xl focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            tabIndex={0}
+                            onKeyDown={handleCanvasKeyDown}
                             onDragOver={(e) => {
                                 e.preventDefault();
-                                e.dataTransfer.dropEffect = 'move';
+                                e.dataTransfer.dropEffect = 'copy';
                             }}
                             onDrop={handleVehicleDrop}
                         >
                             <img
                                 ref={backgroundImageRef}
                                 src={backgroundScene.base64}
+                                onLoad={measureViewport}
+                                onPointerDown={() => setSelectedLayerId(null)}
+                                draggable={false}
                                 alt="Background Scene"
                                 className="w-full h-auto object-contain"
                             />
-                            {extractedVehicle && vehiclePosition && (
-                                <img
-                                    src={extractedVehicle.src}
-                                    alt="Extracted Vehicle"
-                                    className="absolute pointer-events-none transform -translate-x-1/2 -translate-y-1/2 drop-shadow-2xl"
-                                    style={{
-                                        left: `${vehiclePosition.x}px`,
-                                        top: `${vehiclePosition.y}px`,
-                                        transform: `translate(-50%, -50%) scale(${vehicleScale})`,
-                                        width: `${extractedVehicle.width}px`
-                                    }}
+                            {contentRect && isPerspectiveAssist && backgroundSize && (
+                                <PerspectiveGuide
+                                    calibration={calibration}
+                                    layers={layers}
+                                    vehicles={vehicles}
+                                    background={backgroundSize}
+                                    contentRect={contentRect}
+                                    onChange={(next) => updateCalibration('Adjust perspective', next, 'perspective')}
+                                />
+                            )}
+                            {contentRect && (
+                                <TransformOverlay
+                                    layers={layers}
+                                    vehicles={vehicles}
+                                    selectedLayerId={selectedLayerId}
+                                    contentRect={contentRect}
+                                    snapping={isSnappingEnabled}
+                                    scaleForDepth={isPerspectiveAssist ? scaleForDepth : undefined}
+                                    onSelect={handleSelectLayer}
+                                    onChange={(layerId, placement) => updatePlacement(layerId, placement, 'Transform vehicle', `transform:${layerId}`)}
+                                    onFlip={handleFlipLayer}
+                                    onRemove={handleRemoveLayer}
                                 />
                             )}
-                            {!vehiclePosition && (
+                            {layers.length === 0 && (
                                 <div className="absolute inset-0 bg-black/50 flex items-center justify-center pointer-events-none rounded-lg">
                                     <p className="text-white text-2xl font-bold text-center drop-shadow-lg p-4">
-                                        Drag the vehicle from the panel and drop it here.
+                                        Drag a vehicle from the panel and drop it here.
                                     </p>
                                 </div>
                             )}
                         </div>
                     </div>
                     <div className="lg:col-span-1 bg-gray-800 rounded-lg p-4 shadow-lg flex flex-col items-center space-y-4 order-1 lg:order-2">
-                        <h3 className="text-xl font-bold text-white text-center">Your Vehicle</h3>
-                        {extractedVehicle ? (
-                            <>
-                                <div className="p-2 bg-grid-pattern rounded-md border border-gray-600">
-                                    <img
-                                        src={extractedVehicle.src}
-                                        alt="Extracted Vehicle"
-                                        className="max-w-full h-auto cursor-grab active:cursor-grabbing"
-                                        draggable="true"
-                                        onDragStart={(e) => {
-                                            e.dataTransfer.setData('application/vehicle-id', 'extracted-vehicle');
-                                            e.dataTransfer.effectAllowed = 'move';
-                                        }}
-                                    />
+                        <h3 className="text-xl font-bold text-white text-center">Your Vehicles</h3>
+                        {vehicles.map(vehicle => {
+                            const activeVariantId = vehicle.activeVariantId ?? listVariants(vehicle)[0].id;
+                            // Mask edits replace their variant in the picker unless an older result selected it.
+                            const variants = listVariants(vehicle).filter(variant =>
+                                variant.id === activeVariantId || !vehicle.variants?.some(other => other.replaces === variant.id));
+                            return (
+                                <div key={vehicle.id} className="w-full flex flex-col items-center gap-1">
+                                    <div className="p-2 bg-grid-pattern rounded-md border border-gray-600">
+                                        <img
+                                            src={vehicle.src}
+                                            alt={vehicle.name}
+                                            className="max-w-full h-auto cursor-grab active:cursor-grabbing"
+                                            draggable="true"
+                                            onDragStart={(e) => {
+                                                e.dataTransfer.setData('application/vehicle-id', vehicle.id);
+                                                e.dataTransfer.effectAllowed = 'copy';
+                                            }}
+                                        />
+                                    </div>
+                                    {variants.length > 1 && (
+                                        <div className="flex flex-wrap justify-center gap-1" role="group" aria-label="Vehicle angles">
+                                            {variants.map(variant => (
+                                                <button
+                                                    key={variant.id}
+                                                    onClick={() => handleSelectVariant(vehicle.id, variant)}
+                                                    aria-pressed={variant.id === activeVariantId}
+                                                    className={`px-2 py-0.5 text-[11px] rounded ${variant.id === activeVariantId ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                                                >
+                                                    {variant.direction ? DIRECTION_LABELS[variant.direction] : 'Original'}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <div className="flex gap-1">
+                                        <button
+                                            onClick={() => setMaskEditingId(vehicle.id)}
+                                            className="px-2 py-0.5 text-xs font-medium rounded bg-gray-700 hover:bg-gray-600 text-gray-200"
+                                        >
+                                            Edit Mask
+                                        </button>
+                                        <button
+                                            onClick={() => openAngleEditor(vehicle.id)}
+                                            aria-expanded={angleEditorId === vehicle.id}
+                                            className="px-2 py-0.5 text-xs font-medium rounded bg-gray-700 hover:bg-gray-600 text-gray-200"
+                                        >
+                                            Change Angle
+                                        </button>
+                                    </div>
+                                    {angleEditorId === vehicle.id && (
+                                        <div className="w-full pt-2 space-y-3">
+                                            <DirectionalPad
+                                                selectedDirection={selectedDirection}
+                                                onSelectDirection={setSelectedDirection}
+                                                disabled={reorientingId !== null}
+                                            />
+                                            {reorientingId === vehicle.id ? (
+                                                <div className="flex flex-col items-center space-y-2">
+                                                    <p className="text-sm text-white">Rendering new angle...</p>
+                                                    {retryNotice && <p className="text-xs text-yellow-300 text-center">{retryNotice}</p>}
+                                                    <button
+                                                        onClick={handleCancelReorient}
+                                                        className="px-3 py-1 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white"
+                                                    >
+                                                        Cancel
+                                                    </button>
+                                                </div>
+                                            ) : (
+                                                <button
+                                                    onClick={() => selectedDirection && handleReorient(vehicle, selectedDirection)}
+                                                    disabled={!selectedDirection || reorientingId !== null}
+                                                    className="w-full px-3 py-2 text-sm font-medium rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-500 disabled:cursor-not-allowed"
+                                                >
+                                                    Render Angle
+                                                </button>
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
-                                 <p className="text-sm text-gray-400 text-center">Drag the vehicle onto the scene to place it.</p>
-                                <div className="w-full pt-4">
+                            );
+                        })}
+                        {isExtracting ? (
+                            <div className="flex flex-col items-center justify-center py-4 space-y-3">
+                                <svg className="animate-spin h-8 w-8 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                                {retryNotice && <p className="text-xs text-yellow-300 text-center">{retryNotice}</p>}
+                                <button
+                                    onClick={handleCancelExtraction}
+                                    className="px-3 py-1 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="w-full h-28">
+                                <ImageUploader
+                                    onImageUpload={addExtractedVehicle}
+                                    title="Add Vehicle"
+                                    description="Upload one or more cars"
+                                    multiple
+                                />
+                            </div>
+                        )}
+                        <SavedVehiclesTray cutouts={unusedSavedCutouts} onUse={handleUseSavedVehicle} onRemove={handleForgetSavedVehicle} />
+                        {vehicles.length > 0 && (
+                            <p className="text-sm text-gray-400 text-center">Drag vehicles onto the scene to place them. Drop the same car again to add another copy.</p>
+                        )}
+                        <div className="w-full pt-2">
+                            <h4 className="text-md font-semibold text-gray-300 mb-2 text-center">Placed Vehicles</h4>
+                            <LayerList
+                                layers={layers}
+                                vehicles={vehicles}
+                                selectedLayerId={selectedLayerId}
+                                onSelect={setSelectedLayerId}
+                                onMove={handleMoveLayer}
+                                onRemove={handleRemoveLayer}
+                            />
+                        </div>
+                        {selectedLayer && (
+                            <div className="w-full pt-4 space-y-4">
+                                <div>
                                     <label htmlFor="vehicle-scale" className="block text-md font-semibold text-gray-300 mb-2 text-center">
                                         Adjust Vehicle Size
                                     </label>
                                     <input
                                         id="vehicle-scale"
                                         type="range"
-                                        min="0.1"
-                                        max="3"
-                                        step="0.05"
-                                        value={vehicleScale}
-                                        onChange={(e) => setVehicleScale(parseFloat(e.target.value))}
+                                        min="0.02"
+                                        max="1.5"
+                                        step="0.01"
+                                        value={selectedLayer.placement.scale}
+                                        onChange={(e) => updatePlacement(selectedLayer.id, { scale: parseFloat(e.target.value) }, 'Resize vehicle', `scale:${selectedLayer.id}`)}
                                         className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
                                     />
                                 </div>
-                            </>
-                        ) : (
-                            <div className="flex items-center justify-center h-full">
-                                <svg className="animate-spin h-8 w-8 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                                <div>
+                                    <label htmlFor="vehicle-rotation" className="block text-md font-semibold text-gray-300 mb-2 text-center">
+                                        Rotation ({Math.round(selectedLayer.placement.rotation)}°)
+                                    </label>
+                                    <input
+                                        id="vehicle-rotation"
+                                        type="range"
+                                        min="-180"
+                                        max="180"
+                                        step="1"
+                                        value={selectedLayer.placement.rotation}
+                                        onChange={(e) => updatePlacement(selectedLayer.id, { rotation: parseFloat(e.target.value) }, 'Rotate vehicle', `rotation:${selectedLayer.id}`)}
+                                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                                    />
+                                </div>
+                                <button
+                                    onClick={() => handleFlipLayer(selectedLayer.id)}
+                                    className="w-full px-3 py-2 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white"
+                                    aria-pressed={selectedLayer.placement.flipX}
+                                >
+                                    Flip Horizontally
+                                </button>
+                                {isPerspectiveAssist && selectedAspect !== null && (
+                                    <div className="space-y-2 text-center">
+                                        <p className="text-sm text-gray-300">
+                                            Suggested size: {Math.round(suggestScale(selectedLayer.placement.y, selectedAspect, calibration) * 100)}% of scene width
+                                        </p>
+                                        <div className="flex gap-2">
+                                            <button
+                                                onClick={() => updatePlacement(selectedLayer.id, { scale: suggestScale(selectedLayer.placement.y, selectedAspect, calibration) }, 'Apply suggested size')}
+                                                className="flex-1 px-2 py-1.5 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white"
+                                            >
+                                                Apply Suggestion
+                                            </button>
+                                            <button
+                                                onClick={() => updateCalibration('Set size reference', calibrateFromPlacement(selectedLayer.placement, selectedAspect, calibration))}
+                                                className="flex-1 px-2 py-1.5 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white"
+                                                title="Use this vehicle's size as the reference for the rest of the scene"
+                                            >
+                                                Set as Reference
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                                <p className="text-xs text-gray-500 text-center">
+                                    Drag to move, use the corners to resize and the top handle to rotate (Shift snaps to 15°). Arrow keys nudge; hold Shift for bigger steps.
+                                </p>
                             </div>
                         )}
+                        {layers.length > 0 && (
+                            <label className="flex items-center gap-2 text-sm text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    checked={isSnappingEnabled}
+                                    onChange={(e) => setIsSnappingEnabled(e.target.checked)}
+                                    className="rounded bg-gray-700"
+                                />
+                                Snap to guides (hold Alt to bypass)
+                            </label>
+                        )}
+                        {backgroundSize && (
+                            <div className="w-full space-y-1">
+                                <label className="flex items-center gap-2 text-sm text-gray-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={isPerspectiveAssist}
+                                        onChange={(e) => setIsPerspectiveAssist(e.target.checked)}
+                                        className="rounded bg-gray-700"
+                                    />
+                                    Perspective assist
+                                </label>
+                                {isPerspectiveAssist && (
+                                    <p className="text-xs text-gray-500">
+                                        Drag the horizon and vanishing point to match the scene. Vehicles then shrink as they move toward the horizon. Size one car correctly and use Set as Reference to fit the rest.
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                        <div className="w-full border-t border-gray-700 pt-4 space-y-2">
+                            <div className="h-28">
+                                <ImageUploader
+                                    onImageUpload={(fileInfo) => handleBackgroundUpload(fileInfo)}
+                                    title="Replace Background"
+                                    description="Placed vehicles keep their spots"
+                                />
+                            </div>
+                            <button
+                                onClick={() => setIsLibraryOpen(true)}
+                                className="w-full px-3 py-1 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200"
+                            >
+                                Choose from Library ({savedScenes.length})
+                            </button>
+                        </div>
+                        <div className="w-full border-t border-gray-700 pt-4">
+                            <SaveSceneForm
+                                key={backgroundScene.name}
+                                initialName={activeScene?.name ?? backgroundScene.name.replace(/\.[^.]+$/, '')}
+                                initialTags={activeScene?.tags ?? []}
+                                isSaved={!!activeScene}
+                                onSave={handleSaveScene}
+                            />
+                        </div>
                     </div>
                 </div>
             </div>
         );
     };
 
+    const errorAlert = error && (
+        <ErrorAlert
+            error={error.error}
+            stage={error.stage}
+            onRetry={error.retry}
+            onDismiss={() => setError(null)}
+        />
+    );
+
     return (
         <div className="min-h-screen bg-gray-900 text-gray-100 p-4 sm:p-6 lg:p-8">
             <div className="max-w-7xl mx-auto">
@@ -312,45 +1215,173 @@ const App: React.FC = () => {
                     <p className="mt-2 text-lg text-gray-400 max-w-3xl mx-auto">
                         Upload a vehicle and background. Place and resize the vehicle. Then let AI blend the scene perfectly.
                     </p>
-                </header>
-
-                <main>
-                    {renderContent()}
-                    
-                    <div className="text-center my-8">
-                         <button
-                            onClick={handleGenerate}
-                            disabled={isGenerateDisabled}
-                            className="inline-flex items-center justify-center px-8 py-4 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors duration-200"
-                        >
-                            {isLoading ? (
-                                <>
-                                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                                    Blending Scene...
-                                </>
-                            ) : (
-                                "Generate Image"
-                            )}
-                        </button>
+                    <div className="mt-6 inline-flex rounded-md bg-gray-800 p-1" role="tablist">
+                        {(['editor', 'batch'] as const).map(option => (
+                            <button
+                                key={option}
+                                role="tab"
+                                aria-selected={mode === option}
+                                onClick={() => setMode(option)}
+                                className={`px-4 py-2 text-sm font-semibold rounded transition-colors duration-200 ${mode === option ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'}`}
+                            >
+                                {option === 'editor' ? 'Single Scene' : 'Batch'}
+                            </button>
+                        ))}
                     </div>
+                </header>
 
-                    {error && (
-                        <div className="bg-red-900/50 border border-red-700 text-red-200 px-4 py-3 rounded-lg relative text-center max-w-3xl mx-auto" role="alert">
-                            <strong className="font-bold">Error: </strong>
-                            <span className="block sm:inline">{error}</span>
+                <div className="flex justify-end gap-2 mb-4">
+                    <input
+                        ref={projectInputRef}
+                        type="file"
+                        accept={`${PROJECT_FILE_EXTENSION},application/json`}
+                        className="hidden"
+                        onChange={handleOpenProject}
+                    />
+                    {mode === 'editor' && (
+                        <div className="mr-auto flex gap-2">
+                            <button
+                                onClick={handleUndo}
+                                disabled={!undoLabel}
+                                title={undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : 'Nothing to undo'}
+                                className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-800 hover:bg-gray-700 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Undo
+                            </button>
+                            <button
+                                onClick={handleRedo}
+                                disabled={!redoLabel}
+                                title={redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                                className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-800 hover:bg-gray-700 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Redo
+                            </button>
                         </div>
                     )}
+                    <button onClick={handleNewProject} className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-800 hover:bg-gray-700 text-gray-200">
+                        New
+                    </button>
+                    <button onClick={() => projectInputRef.current?.click()} className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-800 hover:bg-gray-700 text-gray-200">
+                        Open Project
+                    </button>
+                    <button
+                        onClick={handleSaveProject}
+                        disabled={!subjectVehicle && !backgroundScene}
+                        className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-800 hover:bg-gray-700 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Save Project
+                    </button>
+                </div>
+
+                {mode === 'batch' ? (
+                    <main>
+                        {errorAlert}
+                        <div className="mb-6">
+                            <BlendOptionsPanel options={blendOptions} onChange={setBlendOptions} />
+                        </div>
+                        <BatchMode vehicles={vehicles} isExtracting={isExtracting} blendOptions={blendOptions} onVehicleUpload={addExtractedVehicle} />
+                    </main>
+                ) : (
+                    <main>
+                        {renderContent()}
 
-                    {generatedImage && (
-                        <div className="mt-8">
-                             <h2 className="text-3xl font-bold text-center mb-4">Generated Result</h2>
-                            <div className="bg-gray-800 p-4 rounded-lg shadow-2xl max-w-5xl mx-auto">
-                                <img src={generatedImage} alt="Generated vehicle in background" className="w-full h-auto object-contain rounded-md" />
+                        {backgroundScene && subjectVehicle && (
+                            <div className="mt-6">
+                                <BlendOptionsPanel options={blendOptions} onChange={setBlendOptions} disabled={isLoading} />
                             </div>
+                        )}
+                    
+                        <div className="text-center my-8">
+                            <label className="mr-4 text-sm text-gray-300">
+                                Variants{' '}
+                                <select
+                                    value={variantCount}
+                                    onChange={(e) => setVariantCount(parseInt(e.target.value, 10))}
+                                    disabled={isLoading}
+                                    className="ml-1 bg-gray-700 text-white rounded-md px-2 py-1"
+                                >
+                                    {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                                        <option key={n} value={n}>{n}</option>
+                                    ))}
+                                </select>
+                            </label>
+                             <button
+                                onClick={() => handleGenerate()}
+                                disabled={isGenerateDisabled}
+                                className="inline-flex items-center justify-center px-8 py-4 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors duration-200"
+                            >
+                                {isLoading ? (
+                                    <>
+                                        <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                                        {generationProgress && generationProgress.total > 1
+                                            ? `Blending Scene (${generationProgress.done} of ${generationProgress.total})...`
+                                            : 'Blending Scene...'}
+                                    </>
+                                ) : (
+                                    variantCount > 1 ? `Generate ${variantCount} Variants` : "Generate Image"
+                                )}
+                            </button>
+                            {isLoading && (
+                                <button
+                                    onClick={handleCancelGeneration}
+                                    className="ml-4 inline-flex items-center justify-center px-6 py-4 text-base font-medium rounded-md text-white bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-gray-500 transition-colors duration-200"
+                                >
+                                    Cancel
+                                </button>
+                            )}
+                            {isLoading && retryNotice && <p className="mt-3 text-sm text-yellow-300">{retryNotice}</p>}
                         </div>
-                    )}
-                </main>
+
+                        {errorAlert}
+
+                        <GenerationHistory
+                            entries={history}
+                            activeEntryId={activeEntryId}
+                            compareIds={compareIds}
+                            isBusy={isLoading}
+                            driftThreshold={driftThreshold}
+                            onDriftThresholdChange={setDriftThreshold}
+                            onInspect={handleInspectEntry}
+                            onSelect={(entryId) => {
+                                setActiveEntryId(entryId);
+                                setCompareIds([]);
+                            }}
+                            onToggleFavorite={handleToggleFavorite}
+                            onToggleCompare={handleToggleCompare}
+                            onRerun={(entry) => handleGenerate(1, entry)}
+                            onLoad={handleLoadEntry}
+                            onExport={(entry) => setExportingEntryId(entry.id)}
+                            onUseSettings={setBlendOptions}
+                            onRemove={handleRemoveEntry}
+                        />
+                    </main>
+                )}
             </div>
+            {isLibraryOpen && (
+                <BackgroundLibrary
+                    scenes={savedScenes}
+                    onSelect={handleSelectScene}
+                    onAdd={handleAddToLibrary}
+                    onDelete={handleDeleteScene}
+                    onClose={() => setIsLibraryOpen(false)}
+                />
+            )}
+            {exportingEntry && backgroundScene && (
+                <ExportPanel
+                    src={exportingEntry.src}
+                    source={exportSourceFor(exportingEntry, backgroundScene)}
+                    settings={exportSettings}
+                    onSettingsChange={setExportSettings}
+                    onClose={() => setExportingEntryId(null)}
+                />
+            )}
+            {maskEditingVehicle && (
+                <MaskEditor
+                    vehicle={maskEditingVehicle}
+                    onApply={(refined) => handleApplyMask(maskEditingVehicle.id, refined)}
+                    onCancel={() => setMaskEditingId(null)}
+                />
+            )}
         </div>
     );
 };
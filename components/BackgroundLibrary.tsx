@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import type { FileInfo } from '../types';
+import { searchScenes, type SavedScene } from '../services/backgroundLibrary';
+import ImageUploader from './ImageUploader';
+
+interface BackgroundLibraryProps {
+  scenes: SavedScene[];
+  onSelect: (scene: SavedScene) => void;
+  onAdd: (file: FileInfo) => Promise<void>;
+  onDelete: (sceneId: string) => void;
+  onClose: () => void;
+}
+
+/** Browse, search and pick saved backgrounds, or add new ones to the library. */
+const BackgroundLibrary: React.FC<BackgroundLibraryProps> = ({ scenes, onSelect, onAdd, onDelete, onClose }) => {
+  const [query, setQuery] = useState<string>('');
+
+  const allTags = [...new Set<string>(scenes.flatMap(scene => scene.tags))].sort();
+  const results = searchScenes(scenes, query);
+  const activeTags = query.split(/\s+/).filter(term => term.startsWith('#')).map(term => term.slice(1));
+
+  const toggleTag = (tag: string) => {
+    const terms = query.split(/\s+/).filter(Boolean);
+    const term = `#${tag}`;
+    setQuery((terms.includes(term) ? terms.filter(t => t !== term) : [...terms, term]).join(' '));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Background library">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl max-h-full overflow-auto p-4 space-y-4 text-left">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-xl font-bold">Background Library</h2>
+          <button onClick={onClose} className="px-3 py-1 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">
+            Close
+          </button>
+        </div>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name or tag, e.g. showroom #night"
+          aria-label="Search backgrounds"
+          className="w-full bg-gray-700 text-white text-sm rounded-md px-3 py-2"
+        />
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by tag">
+            {allTags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => toggleTag(tag)}
+                aria-pressed={activeTags.includes(tag)}
+                className={`px-3 py-1 text-xs rounded-full ${activeTags.includes(tag) ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {results.map(scene => (
+            <div key={scene.id} className="relative group">
+              <button
+                onClick={() => onSelect(scene)}
+                className="block w-full text-left rounded-md overflow-hidden border-2 border-transparent hover:border-blue-500 bg-gray-900"
+                aria-label={`Use ${scene.name}`}
+              >
+                <img src={scene.thumbnail} alt="" className="w-full h-28 object-cover" />
+                <div className="p-2">
+                  <p className="text-sm font-semibold text-gray-200 truncate">{scene.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{scene.tags.map(tag => `#${tag}`).join(' ') || 'No tags'}</p>
+                </div>
+              </button>
+              <button
+                onClick={() => onDelete(scene.id)}
+                className="absolute top-1 right-1 w-6 h-6 rounded-full bg-gray-900/80 text-xs text-gray-400 hover:text-red-400"
+                aria-label={`Remove ${scene.name} from the library`}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="min-h-[150px]">
+            <ImageUploader onImageUpload={onAdd} title="Add to Library" description="Saved with a default placement" multiple />
+          </div>
+        </div>
+        {scenes.length > 0 && results.length === 0 && (
+          <p className="text-sm text-gray-400">No saved backgrounds match "{query}".</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundLibrary;
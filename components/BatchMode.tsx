@@ -0,0 +1,298 @@
+import React, { useRef, useState } from 'react';
+import type { BatchBackground, BatchItem, BlendOptions, ExtractedVehicle, FileInfo, NormalizedPlacement } from '../types';
+import { blendVehicleIntoScene } from '../services/geminiService';
+import { CancelledError, toServiceError } from '../services/errors';
+import { composeScene, placementToDraw } from '../services/compositor';
+import { mergeIntoBackground } from '../services/merge';
+import { buildBatchArchive } from '../services/batch';
+import ImageUploader from './ImageUploader';
+import PlacementPicker from './PlacementPicker';
+import { describeError } from './ErrorAlert';
+import { createId } from '../utils/id';
+import { runWithConcurrency } from '../utils/concurrency';
+import { createZip } from '../utils/zip';
+import { loadImage, downloadBlob } from '../utils/image';
+
+interface BatchModeProps {
+  vehicles: ExtractedVehicle[];
+  isExtracting: boolean;
+  blendOptions: BlendOptions;
+  onVehicleUpload: (fileInfo: FileInfo) => void | Promise<void>;
+}
+
+const DEFAULT_PLACEMENT: NormalizedPlacement = { x: 0.5, y: 0.7, scale: 0.35, rotation: 0, flipX: false };
+
+const statusStyles: Record<BatchItem['status'], string> = {
+  queued: 'bg-gray-600 text-gray-200',
+  running: 'bg-blue-600 text-white',
+  done: 'bg-green-700 text-white',
+  failed: 'bg-red-700 text-white',
+};
+
+const BatchMode: React.FC<BatchModeProps> = ({ vehicles, isExtracting, blendOptions, onVehicleUpload }) => {
+  const [selectedVehicleIds, setSelectedVehicleIds] = useState<string[]>([]);
+  const [backgrounds, setBackgrounds] = useState<BatchBackground[]>([]);
+  const [activeBackgroundId, setActiveBackgroundId] = useState<string | null>(null);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const activeBackground = backgrounds.find(bg => bg.id === activeBackgroundId) ?? null;
+  const previewVehicle = vehicles.find(v => v.id === selectedVehicleIds[0]);
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+
+  const toggleVehicle = (vehicleId: string) => {
+    setSelectedVehicleIds(prev => prev.includes(vehicleId) ? prev.filter(id => id !== vehicleId) : [...prev, vehicleId]);
+  };
+
+  const handleBackgroundUpload = (fileInfo: FileInfo) => {
+    const background: BatchBackground = { id: createId('background'), file: fileInfo, placement: DEFAULT_PLACEMENT };
+    setBackgrounds(prev => [...prev, background]);
+    setActiveBackgroundId(background.id);
+  };
+
+  const handleRemoveBackground = (backgroundId: string) => {
+    setBackgrounds(prev => prev.filter(bg => bg.id !== backgroundId));
+    setActiveBackgroundId(prev => prev === backgroundId ? null : prev);
+  };
+
+  const updatePlacement = (backgroundId: string, placement: NormalizedPlacement) => {
+    setBackgrounds(prev => prev.map(bg => bg.id === backgroundId ? { ...bg, placement } : bg));
+  };
+
+  const updateItem = (itemId: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === itemId ? { ...item, ...changes } : item));
+  };
+
+  const runItems = async (queue: BatchItem[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    const usedOptions = blendOptions;
+
+    // Each source image is decoded once per run, however many items use it.
+    const imageCache = new Map<string, Promise<HTMLImageElement>>();
+    const getImage = (src: string) => {
+      if (!imageCache.has(src)) imageCache.set(src, loadImage(src));
+      return imageCache.get(src)!;
+    };
+
+    await runWithConcurrency(queue, concurrency, async (item) => {
+      const vehicle = vehicles.find(v => v.id === item.vehicleId);
+      const background = backgrounds.find(bg => bg.id === item.backgroundId);
+      if (controller.signal.aborted) {
+        updateItem(item.id, { status: 'failed', error: 'Cancelled.' });
+        return;
+      }
+      if (!vehicle || !background) {
+        updateItem(item.id, { status: 'failed', error: 'Vehicle or background is no longer available.' });
+        return;
+      }
+
+      // Later edits to the background's placement don't change what this item recorded.
+      const { placement } = background;
+      updateItem(item.id, { status: 'running', error: undefined });
+      try {
+        const [bgImg, vehicleImg] = await Promise.all([getImage(background.file.base64), getImage(vehicle.src)]);
+        const draw = placementToDraw(
+          placement,
+          { width: bgImg.naturalWidth, height: bgImg.naturalHeight },
+          vehicleImg,
+        );
+        const composite = composeScene(bgImg, [draw]);
+        const blended = await blendVehicleIntoScene(composite, usedOptions, { signal: controller.signal });
+        const result = usedOptions.preserveBackground
+          ? await mergeIntoBackground(background.file.base64, blended, [draw])
+          : blended;
+        updateItem(item.id, { status: 'done', result, placement, blendOptions: usedOptions });
+      } catch (e) {
+        if (!(e instanceof CancelledError)) console.error(e);
+        const { title, action } = describeError(toServiceError(e), 'generation');
+        updateItem(item.id, { status: 'failed', error: action ? `${title}. ${action}` : title });
+      }
+    });
+
+    abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const handleRun = () => {
+    const queue: BatchItem[] = [];
+    for (const background of backgrounds) {
+      for (const vehicleId of selectedVehicleIds) {
+        queue.push({ id: createId('batch'), vehicleId, backgroundId: background.id, status: 'queued' });
+      }
+    }
+    setItems(queue);
+    runItems(queue);
+  };
+
+  const handleRetryFailed = () => {
+    const failed = items.filter(item => item.status === 'failed');
+    setItems(prev => prev.map(item => item.status === 'failed' ? { ...item, status: 'queued', error: undefined } : item));
+    runItems(failed);
+  };
+
+  const handleDownloadZip = () => {
+    downloadBlob(createZip(buildBatchArchive(items, vehicles, backgrounds)), 'vehicle-batch.zip');
+  };
+
+  const isRunDisabled = isRunning || selectedVehicleIds.length === 0 || backgrounds.length === 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-gray-800 rounded-lg p-4 shadow-lg space-y-4">
+          <h3 className="text-xl font-bold text-white">1. Vehicles</h3>
+          <p className="text-sm text-gray-400">Select one vehicle for many scenes, or several vehicles for one scene.</p>
+          <div className="grid grid-cols-2 gap-2">
+            {vehicles.map(vehicle => {
+              const isSelected = selectedVehicleIds.includes(vehicle.id);
+              return (
+                <button
+                  key={vehicle.id}
+                  onClick={() => toggleVehicle(vehicle.id)}
+                  className={`p-2 bg-grid-pattern rounded-md border-2 ${isSelected ? 'border-blue-500' : 'border-gray-600 hover:border-gray-400'}`}
+                  aria-pressed={isSelected}
+                >
+                  <img src={vehicle.src} alt={vehicle.name} className="max-w-full h-auto" />
+                </button>
+              );
+            })}
+          </div>
+          {isExtracting ? (
+            <p className="text-sm text-gray-300 text-center">Extracting vehicle...</p>
+          ) : (
+            <div className="h-28">
+              <ImageUploader onImageUpload={onVehicleUpload} title="Add Vehicles" description="Extracted once, reused for every scene" multiple />
+            </div>
+          )}
+        </div>
+
+        <div className="bg-gray-800 rounded-lg p-4 shadow-lg space-y-4">
+          <h3 className="text-xl font-bold text-white">2. Backgrounds</h3>
+          <div className="grid grid-cols-3 gap-2">
+            {backgrounds.map(bg => (
+              <div key={bg.id} className="relative">
+                <button
+                  onClick={() => setActiveBackgroundId(bg.id)}
+                  className={`w-full rounded-md overflow-hidden border-2 ${bg.id === activeBackgroundId ? 'border-blue-500' : 'border-transparent hover:border-gray-400'}`}
+                >
+                  <img src={bg.file.base64} alt={bg.file.name} className="w-full h-16 object-cover" />
+                </button>
+                <button
+                  onClick={() => handleRemoveBackground(bg.id)}
+                  className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-red-600 hover:bg-red-500 text-white text-[10px] font-bold"
+                  aria-label={`Remove ${bg.file.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="h-28">
+            <ImageUploader onImageUpload={handleBackgroundUpload} title="Add Backgrounds" description="Drag & drop or click to upload" multiple />
+          </div>
+        </div>
+
+        <div className="bg-gray-800 rounded-lg p-4 shadow-lg space-y-4">
+          <h3 className="text-xl font-bold text-white">3. Placement</h3>
+          {activeBackground ? (
+            <>
+              <p className="text-sm text-gray-400">Click the scene to set where vehicles go in <span className="text-gray-200">{activeBackground.file.name}</span>.</p>
+              <PlacementPicker
+                backgroundSrc={activeBackground.file.base64}
+                vehicleSrc={previewVehicle?.src}
+                placement={activeBackground.placement}
+                onChange={(placement) => updatePlacement(activeBackground.id, placement)}
+              />
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">Select a background to set its placement.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-4">
+        <label className="text-sm text-gray-300 flex items-center gap-2">
+          Parallel requests
+          <input
+            type="number"
+            min="1"
+            max="4"
+            value={concurrency}
+            onChange={(e) => setConcurrency(Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), 4))}
+            className="w-16 bg-gray-700 text-white rounded-md px-2 py-1"
+          />
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={isRunDisabled}
+          className="px-6 py-3 text-base font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          {isRunning ? 'Running Batch...' : `Run Batch (${selectedVehicleIds.length * backgrounds.length})`}
+        </button>
+        {isRunning && (
+          <button
+            onClick={handleCancel}
+            className="px-4 py-3 text-base font-medium rounded-md text-white bg-gray-700 hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={handleRetryFailed}
+          disabled={isRunning || failedCount === 0}
+          className="px-4 py-3 text-base font-medium rounded-md text-white bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Retry Failed
+        </button>
+        <button
+          onClick={handleDownloadZip}
+          disabled={isRunning || doneCount === 0}
+          className="px-4 py-3 text-base font-medium rounded-md text-white bg-green-700 hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Download ZIP
+        </button>
+      </div>
+
+      {items.length > 0 && (
+        <div className="bg-gray-800 rounded-lg p-4 shadow-lg">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-bold text-white">Results</h3>
+            <p className="text-sm text-gray-400">{doneCount} of {items.length} done{failedCount > 0 ? `, ${failedCount} failed` : ''}</p>
+          </div>
+          <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden mb-4">
+            <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${((doneCount + failedCount) / items.length) * 100}%` }} />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {items.map(item => {
+              const vehicle = vehicles.find(v => v.id === item.vehicleId);
+              const background = backgrounds.find(bg => bg.id === item.backgroundId);
+              return (
+                <div key={item.id} className="bg-gray-900 rounded-md p-2 space-y-2">
+                  <img
+                    src={item.result ?? background?.file.base64}
+                    alt={`${vehicle?.name} in ${background?.file.name}`}
+                    className={`w-full h-28 object-cover rounded ${item.result ? '' : 'opacity-40'}`}
+                  />
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-400 truncate">{vehicle?.name} · {background?.file.name}</span>
+                    <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded ${statusStyles[item.status]}`}>{item.status}</span>
+                  </div>
+                  {item.error && <p className="text-xs text-red-300">{item.error}</p>}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchMode;
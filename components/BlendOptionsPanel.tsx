@@ -0,0 +1,191 @@
+import React from 'react';
+import type { BlendOptions, SceneModifier, ShadowDirection } from '../types';
+import { DEFAULT_BLEND_OPTIONS, SCENE_MODIFIERS, SCENE_WIDE_MODIFIERS, SHADOW_DIRECTIONS, withoutClashingModifiers } from '../services/blendOptions';
+
+interface BlendOptionsPanelProps {
+  options: BlendOptions;
+  onChange: (options: BlendOptions) => void;
+  disabled?: boolean;
+}
+
+const shadowDirectionLabels: Record<ShadowDirection, string> = {
+  'auto': 'Match scene lighting',
+  'left': 'Falls left',
+  'right': 'Falls right',
+  'toward-camera': 'Toward camera',
+  'away-from-camera': 'Away from camera',
+};
+
+export const SCENE_MODIFIER_LABELS: Record<SceneModifier, string> = {
+  'wet-road': 'Wet road',
+  'dusk': 'Dusk',
+  'night': 'Night',
+  'overcast': 'Overcast',
+  'headlights-on': 'Headlights on',
+};
+
+/** A one-line summary of the options, shown next to results. */
+export const summarizeBlendOptions = (options: BlendOptions): string => {
+  const parts = [
+    options.shadow.enabled ? `shadow ${Math.round(options.shadow.softness * 100)}% soft, ${shadowDirectionLabels[options.shadow.direction].toLowerCase()}` : 'no shadow',
+    options.reflections.enabled ? `reflections ${Math.round(options.reflections.strength * 100)}%` : 'no reflections',
+    options.colorMatch.enabled ? `color match ${Math.round(options.colorMatch.strength * 100)}%` : 'no color match',
+    ...options.modifiers.map(modifier => SCENE_MODIFIER_LABELS[modifier].toLowerCase()),
+    ...(options.preserveBackground ? ['background kept'] : []),
+  ];
+  return parts.join(' · ') + (options.note.trim() ? ` · "${options.note.trim()}"` : '');
+};
+
+interface StrengthControlProps {
+  id: string;
+  label: string;
+  enabled: boolean;
+  value: number;
+  valueLabel: string;
+  disabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  onValue: (value: number) => void;
+}
+
+const StrengthControl: React.FC<StrengthControlProps> = ({ id, label, enabled, value, valueLabel, disabled, onToggle, onValue }) => (
+  <div>
+    <label className="flex items-center gap-2 text-sm font-semibold text-gray-300">
+      <input type="checkbox" checked={enabled} disabled={disabled} onChange={(e) => onToggle(e.target.checked)} className="rounded bg-gray-700" />
+      {label}
+    </label>
+    <label htmlFor={id} className="sr-only">{valueLabel}</label>
+    <input
+      id={id}
+      type="range"
+      min="0"
+      max="1"
+      step="0.05"
+      value={value}
+      disabled={disabled || !enabled}
+      onChange={(e) => onValue(parseFloat(e.target.value))}
+      className="w-full h-2 mt-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+    />
+    <p className="text-xs text-gray-500">{valueLabel}: {Math.round(value * 100)}%</p>
+  </div>
+);
+
+const BlendOptionsPanel: React.FC<BlendOptionsPanelProps> = ({ options, onChange, disabled = false }) => {
+  const toggleModifier = (modifier: SceneModifier) => {
+    const modifiers = options.modifiers.includes(modifier)
+      ? options.modifiers.filter(m => m !== modifier)
+      : [...options.modifiers, modifier];
+    onChange({ ...options, modifiers });
+  };
+
+  return (
+    <details className="bg-gray-800 rounded-lg p-4 shadow-lg max-w-3xl mx-auto text-left">
+      <summary className="cursor-pointer text-md font-semibold text-gray-200">Blend Options</summary>
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <StrengthControl
+            id="blend-shadow-softness"
+            label="Shadows"
+            enabled={options.shadow.enabled}
+            value={options.shadow.softness}
+            valueLabel="Softness"
+            disabled={disabled}
+            onToggle={(enabled) => onChange({ ...options, shadow: { ...options.shadow, enabled } })}
+            onValue={(softness) => onChange({ ...options, shadow: { ...options.shadow, softness } })}
+          />
+          <select
+            aria-label="Shadow direction"
+            value={options.shadow.direction}
+            disabled={disabled || !options.shadow.enabled}
+            onChange={(e) => onChange({ ...options, shadow: { ...options.shadow, direction: e.target.value as ShadowDirection } })}
+            className="w-full bg-gray-700 text-white text-sm rounded-md px-2 py-1 disabled:opacity-40"
+          >
+            {SHADOW_DIRECTIONS.map(direction => (
+              <option key={direction} value={direction}>{shadowDirectionLabels[direction]}</option>
+            ))}
+          </select>
+        </div>
+        <StrengthControl
+          id="blend-reflections"
+          label="Reflections"
+          enabled={options.reflections.enabled}
+          value={options.reflections.strength}
+          valueLabel="Strength"
+          disabled={disabled}
+          onToggle={(enabled) => onChange({ ...options, reflections: { ...options.reflections, enabled } })}
+          onValue={(strength) => onChange({ ...options, reflections: { ...options.reflections, strength } })}
+        />
+        <StrengthControl
+          id="blend-color-match"
+          label="Color matching"
+          enabled={options.colorMatch.enabled}
+          value={options.colorMatch.strength}
+          valueLabel="Strength"
+          disabled={disabled}
+          onToggle={(enabled) => onChange({ ...options, colorMatch: { ...options.colorMatch, enabled } })}
+          onValue={(strength) => onChange({ ...options, colorMatch: { ...options.colorMatch, strength } })}
+        />
+      </div>
+
+      <div className="mt-4">
+        <p className="text-sm font-semibold text-gray-300 mb-2">Scene changes</p>
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Scene changes">
+          {SCENE_MODIFIERS.map(modifier => {
+            const isActive = options.modifiers.includes(modifier);
+            const clashes = options.preserveBackground && SCENE_WIDE_MODIFIERS.includes(modifier);
+            return (
+              <button
+                key={modifier}
+                onClick={() => toggleModifier(modifier)}
+                disabled={disabled || clashes}
+                aria-pressed={isActive}
+                title={clashes ? 'Not available while the original background is kept' : undefined}
+                className={`px-3 py-1 text-sm rounded-full disabled:opacity-40 disabled:cursor-not-allowed ${isActive ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+              >
+                {SCENE_MODIFIER_LABELS[modifier]}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <label htmlFor="blend-note" className="block text-sm font-semibold text-gray-300 mb-1">Note to the model</label>
+        <textarea
+          id="blend-note"
+          rows={2}
+          value={options.note}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...options, note: e.target.value })}
+          placeholder="e.g. keep the number plate readable"
+          className="w-full bg-gray-700 text-white text-sm rounded-md px-2 py-1"
+        />
+      </div>
+
+      <div className="mt-4">
+        <label className="flex items-center gap-2 text-sm font-semibold text-gray-300">
+          <input
+            type="checkbox"
+            checked={options.preserveBackground}
+            disabled={disabled}
+            onChange={(e) => onChange(withoutClashingModifiers({ ...options, preserveBackground: e.target.checked }))}
+            className="rounded bg-gray-700"
+          />
+          Keep the original background
+        </label>
+        <p className="text-xs text-gray-500 mt-1">
+          Only the vehicles, their shadows and the ground around them are taken from the model. Everything else stays pixel-identical to your photo. Time of day and weather changes would only show near the vehicles, so they are turned off.
+        </p>
+      </div>
+
+      <button
+        onClick={() => onChange(DEFAULT_BLEND_OPTIONS)}
+        disabled={disabled}
+        className="mt-3 px-3 py-1 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200"
+      >
+        Reset to Defaults
+      </button>
+    </details>
+  );
+};
+
+export default BlendOptionsPanel;
@@ -1,43 +1,59 @@
 import React from 'react';
 import ArrowIcon from './icons/ArrowIcon';
+import { VehicleDirection } from '../types';
 
 interface DirectionalPadProps {
-  selectedDirection: string | null;
-  onSelectDirection: (direction: string) => void;
+  selectedDirection: VehicleDirection | null;
+  onSelectDirection: (direction: VehicleDirection) => void;
+  disabled?: boolean;
 }
 
-const directions = [
-    { label: 'facing opposite', rotation: 'rotate-0', position: 'col-start-2 row-start-1' },
-    { label: '135 degree back right quarter', rotation: 'rotate-45', position: 'col-start-3 row-start-1' },
-    { label: 'facing right', rotation: 'rotate-90', position: 'col-start-3 row-start-2' },
-    { label: '45 degree right', rotation: 'rotate-135', position: 'col-start-3 row-start-3' },
-    { label: 'facing strait forward', rotation: 'rotate-180', position: 'col-start-2 row-start-3' },
-    { label: '45 left', rotation: '-rotate-135', position: 'col-start-1 row-start-3' },
-    { label: 'facing left', rotation: '-rotate-90', position: 'col-start-1 row-start-2' },
-    { label: '135 degree back left quarter', rotation: '-rotate-45', position: 'col-start-1 row-start-1' },
+export const DIRECTION_LABELS: Record<VehicleDirection, string> = {
+    [VehicleDirection.Front]: 'Front',
+    [VehicleDirection.FrontRight]: 'Front ¾ right',
+    [VehicleDirection.Right]: 'Facing right',
+    [VehicleDirection.RearRight]: 'Rear ¾ right',
+    [VehicleDirection.Rear]: 'Rear',
+    [VehicleDirection.RearLeft]: 'Rear ¾ left',
+    [VehicleDirection.Left]: 'Facing left',
+    [VehicleDirection.FrontLeft]: 'Front ¾ left',
+};
+
+// Arrows point where the front of the vehicle points: up is away from the camera.
+const directions: { direction: VehicleDirection; rotation: string; position: string }[] = [
+    { direction: VehicleDirection.Rear, rotation: 'rotate-0', position: 'col-start-2 row-start-1' },
+    { direction: VehicleDirection.RearRight, rotation: 'rotate-45', position: 'col-start-3 row-start-1' },
+    { direction: VehicleDirection.Right, rotation: 'rotate-90', position: 'col-start-3 row-start-2' },
+    { direction: VehicleDirection.FrontRight, rotation: 'rotate-135', position: 'col-start-3 row-start-3' },
+    { direction: VehicleDirection.Front, rotation: 'rotate-180', position: 'col-start-2 row-start-3' },
+    { direction: VehicleDirection.FrontLeft, rotation: '-rotate-135', position: 'col-start-1 row-start-3' },
+    { direction: VehicleDirection.Left, rotation: '-rotate-90', position: 'col-start-1 row-start-2' },
+    { direction: VehicleDirection.RearLeft, rotation: '-rotate-45', position: 'col-start-1 row-start-1' },
 ];
 
-const DirectionalPad: React.FC<DirectionalPadProps> = ({ selectedDirection, onSelectDirection }) => {
+const DirectionalPad: React.FC<DirectionalPadProps> = ({ selectedDirection, onSelectDirection, disabled = false }) => {
     return (
         <div className="grid grid-cols-3 grid-rows-3 gap-2 w-full max-w-[280px] h-auto aspect-square mx-auto">
             {directions.map((dir) => {
-                const isSelected = selectedDirection === dir.label;
+                const isSelected = selectedDirection === dir.direction;
+                const label = DIRECTION_LABELS[dir.direction];
                 return (
                     <button
-                        key={dir.label}
-                        onClick={() => onSelectDirection(dir.label)}
-                        className={`${dir.position} flex flex-col items-center justify-center p-1 rounded-md transition-colors duration-200 ease-in-out text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500
+                        key={dir.direction}
+                        onClick={() => onSelectDirection(dir.direction)}
+                        disabled={disabled}
+                        className={`${dir.position} flex flex-col items-center justify-center p-1 rounded-md transition-colors duration-200 ease-in-out text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed
                             ${isSelected ? 'bg-blue-600 ring-2 ring-blue-400' : 'bg-gray-700 hover:bg-gray-600'}
                         `}
-                        aria-label={`Set direction to ${dir.label}`}
+                        aria-label={`Set direction to ${label}`}
                         aria-pressed={isSelected}
                     >
                         <ArrowIcon className={`w-6 h-6 sm:w-8 sm:h-8 transform ${dir.rotation} text-red-400`} />
-                        <span className="text-[10px] leading-tight text-center mt-1 text-gray-300">{dir.label}</span>
+                        <span className="text-[10px] leading-tight text-center mt-1 text-gray-300">{label}</span>
                     </button>
                 )
             })}
         </div>
     );
 };
-export default DirectionalPad;
\ No newline at end of file
+export default DirectionalPad;
@@ -0,0 +1,141 @@
+import React from 'react';
+import { toServiceError, ModelRefusedError, QuotaError, type ServiceError } from '../services/errors';
+
+export type ErrorStage = 'extraction' | 'reorientation' | 'generation' | 'project';
+
+interface ErrorAlertProps {
+  error: unknown;
+  stage: ErrorStage;
+  onRetry?: () => void;
+  onDismiss: () => void;
+}
+
+interface ErrorDescription {
+  title: string;
+  message: string;
+  action: string;
+  canRetry: boolean;
+}
+
+const stageLabel: Record<ErrorStage, string> = {
+  extraction: 'extract the vehicle',
+  reorientation: 'change the vehicle angle',
+  generation: 'blend the scene',
+  project: 'open the project',
+};
+
+export const describeError = (error: ServiceError, stage: ErrorStage): ErrorDescription => {
+  const failedTo = `Could not ${stageLabel[stage]}`;
+  switch (error.kind) {
+    case 'invalid-input':
+      return {
+        title: stage === 'project' ? 'Invalid project file' : 'Invalid image',
+        message: error.message,
+        action: {
+          extraction: 'Upload a different vehicle photo.',
+          reorientation: 'Refine the cutout or try a different angle.',
+          generation: 'Check both images and the vehicle placement.',
+          project: 'Choose a project file saved by this app.',
+        }[stage],
+        canRetry: false,
+      };
+    case 'safety-blocked':
+      return {
+        title: 'Blocked by safety filters',
+        message: `${failedTo} because the request was flagged${error instanceof ModelRefusedError && error.finishReason ? ` (${error.finishReason})` : ''}.`,
+        action: 'Try a different photo or scene. Retrying the same images is unlikely to help.',
+        canRetry: false,
+      };
+    case 'model-refused':
+      return {
+        title: 'The model did not return an image',
+        message: error instanceof ModelRefusedError && error.modelText ? `The model replied: "${error.modelText}"` : error.message,
+        action: 'Try again, or use a clearer photo of the vehicle.',
+        canRetry: true,
+      };
+    case 'no-image':
+      return {
+        title: 'No image returned',
+        message: `${failedTo}: the model responded without an image.`,
+        action: 'Try again. This is usually temporary.',
+        canRetry: true,
+      };
+    case 'bad-output':
+      return {
+        title: 'The cutout did not look right',
+        message: error.message,
+        action: 'Try again, or use a photo where the whole vehicle is clearly visible.',
+        canRetry: true,
+      };
+    case 'quota':
+      return {
+        title: 'Rate limit reached',
+        message: 'Too many requests were sent to the image model, or the API quota is used up.',
+        action: error instanceof QuotaError && error.retryAfterMs !== undefined && error.retryAfterMs > 60_000
+          ? `Try again in about ${Math.ceil(error.retryAfterMs / 60_000)} minutes. If it keeps happening, check the API plan and billing.`
+          : 'Wait a minute and try again. If it keeps happening, check the API plan and billing.',
+        canRetry: true,
+      };
+    case 'network':
+    case 'timeout':
+      return {
+        title: error.kind === 'timeout' ? 'Request timed out' : 'Connection problem',
+        message: error.message,
+        action: 'Check your connection and try again.',
+        canRetry: true,
+      };
+    case 'configuration':
+      return {
+        title: 'Configuration problem',
+        message: error.message,
+        action: 'Check the API key and provider settings in .env.local.',
+        canRetry: false,
+      };
+    case 'compositing':
+      return {
+        title: 'Could not build the composite',
+        message: error.message,
+        action: 'Reload the page and try again.',
+        canRetry: true,
+      };
+    case 'cancelled':
+      return { title: 'Cancelled', message: error.message, action: '', canRetry: true };
+    default:
+      return {
+        title: 'Something went wrong',
+        message: `${failedTo}: ${error.message}`,
+        action: 'Try again.',
+        canRetry: true,
+      };
+  }
+};
+
+const ErrorAlert: React.FC<ErrorAlertProps> = ({ error, stage, onRetry, onDismiss }) => {
+  const { title, message, action, canRetry } = describeError(toServiceError(error), stage);
+
+  return (
+    <div className="bg-red-900/50 border border-red-700 text-red-200 px-4 py-3 rounded-lg relative text-center max-w-3xl mx-auto mb-6" role="alert">
+      <strong className="font-bold">{title}: </strong>
+      <span className="block sm:inline">{message}</span>
+      {action && <p className="text-sm text-red-300 mt-1">{action}</p>}
+      <div className="mt-3 flex justify-center gap-3">
+        {canRetry && onRetry && (
+          <button
+            onClick={onRetry}
+            className="px-4 py-1 text-sm font-medium rounded-md bg-red-700 hover:bg-red-600 text-white"
+          >
+            Try Again
+          </button>
+        )}
+        <button
+          onClick={onDismiss}
+          className="px-4 py-1 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorAlert;
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import {
+  buildExportFileName,
+  exportImage,
+  renderExportPreview,
+  EXPORT_ASPECTS,
+  EXPORT_FORMATS,
+  EXPORT_SIZE_PRESETS,
+  WATERMARK_POSITIONS,
+  type ExportFormat,
+  type ExportSettings,
+  type ExportSource,
+  type WatermarkPosition,
+} from '../services/exporter';
+import { toServiceError } from '../services/errors';
+import { downloadBlob } from '../utils/image';
+
+interface ExportPanelProps {
+  src: string;
+  source: ExportSource;
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_WIDTH = 640;
+
+const aspectLabels: Record<ExportSettings['aspect'], string> = {
+  'original': 'Original',
+  '16:9': '16:9',
+  '4:3': '4:3',
+  '1:1': '1:1',
+  '4:5': '4:5',
+};
+
+const positionLabels: Record<WatermarkPosition, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right',
+  'center': 'Center',
+};
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ src, source, settings, onSettingsChange, onClose }) => {
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    renderExportPreview(src, settings, PREVIEW_WIDTH)
+      .then(url => { if (isCurrent) setPreview(url); })
+      .catch(e => console.error(e));
+    return () => { isCurrent = false; };
+  }, [src, settings]);
+
+  const fileName = buildExportFileName(source, settings);
+
+  const handleLogoFile = (file: File | undefined) => {
+    if (!file || !file.type.startsWith('image/')) return;
+    const reader = new FileReader();
+    reader.onload = () => onSettingsChange({
+      ...settings,
+      watermark: { position: 'bottom-right', size: 0.15, opacity: 0.8, ...settings.watermark, src: reader.result as string },
+    });
+    reader.readAsDataURL(file);
+  };
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      downloadBlob(await exportImage(src, settings, source), fileName);
+    } catch (e) {
+      console.error(e);
+      setExportError(toServiceError(e).message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const { watermark } = settings;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Export image">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl max-h-full overflow-auto p-4 flex flex-col lg:flex-row gap-4">
+        <div className="flex-1 flex items-center justify-center min-h-[300px] bg-gray-900 rounded-md">
+          {preview
+            ? <img src={preview} alt="Export preview" className="max-w-full max-h-[70vh] object-contain" />
+            : <p className="text-white font-semibold">Rendering preview...</p>}
+        </div>
+
+        <div className="w-full lg:w-72 space-y-4 text-left">
+          <h2 className="text-xl font-bold">Export</h2>
+
+          <div>
+            <p className="text-sm font-semibold text-gray-300 mb-2">Format</p>
+            <div className="flex gap-2" role="group" aria-label="Format">
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => onSettingsChange({ ...settings, format })}
+                  aria-pressed={settings.format === format}
+                  className={`px-3 py-1 text-sm rounded-md ${settings.format === format ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                >
+                  {EXPORT_FORMATS[format].label}
+                </button>
+              ))}
+            </div>
+            <label htmlFor="export-quality" className="block text-xs text-gray-400 mt-2">
+              Quality: {settings.format === 'png' ? 'lossless' : `${Math.round(settings.quality * 100)}%`}
+            </label>
+            <input
+              id="export-quality"
+              type="range"
+              min="0.5"
+              max="1"
+              step="0.01"
+              value={settings.quality}
+              disabled={settings.format === 'png'}
+              onChange={(e) => onSettingsChange({ ...settings, quality: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold text-gray-300 mb-2">Crop</p>
+            <div className="flex flex-wrap gap-2" role="group" aria-label="Crop">
+              {EXPORT_ASPECTS.map(aspect => (
+                <button
+                  key={aspect}
+                  onClick={() => onSettingsChange({ ...settings, aspect })}
+                  aria-pressed={settings.aspect === aspect}
+                  className={`px-3 py-1 text-sm rounded-full ${settings.aspect === aspect ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                >
+                  {aspectLabels[aspect]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="export-size" className="block text-sm font-semibold text-gray-300 mb-1">Size</label>
+            <select
+              id="export-size"
+              value={settings.width ?? ''}
+              onChange={(e) => onSettingsChange({ ...settings, width: e.target.value ? Number(e.target.value) : null })}
+              className="w-full bg-gray-700 text-white text-sm rounded-md px-2 py-1"
+            >
+              {EXPORT_SIZE_PRESETS.map(preset => (
+                <option key={preset.label} value={preset.width ?? ''}>{preset.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Smaller images are never enlarged.</p>
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold text-gray-300 mb-1">Watermark</p>
+            <input
+              type="file"
+              accept="image/*"
+              aria-label="Watermark logo"
+              onChange={(e) => handleLogoFile(e.target.files?.[0])}
+              className="block w-full text-xs text-gray-400 file:mr-2 file:px-2 file:py-1 file:rounded-md file:border-0 file:bg-gray-700 file:text-gray-200"
+            />
+            {watermark && (
+              <div className="mt-2 space-y-2">
+                <select
+                  aria-label="Watermark position"
+                  value={watermark.position}
+                  onChange={(e) => onSettingsChange({ ...settings, watermark: { ...watermark, position: e.target.value as WatermarkPosition } })}
+                  className="w-full bg-gray-700 text-white text-sm rounded-md px-2 py-1"
+                >
+                  {WATERMARK_POSITIONS.map(position => (
+                    <option key={position} value={position}>{positionLabels[position]}</option>
+                  ))}
+                </select>
+                <label className="block text-xs text-gray-400">
+                  Size: {Math.round(watermark.size * 100)}% of width
+                  <input
+                    type="range"
+                    min="0.05"
+                    max="0.5"
+                    step="0.01"
+                    value={watermark.size}
+                    onChange={(e) => onSettingsChange({ ...settings, watermark: { ...watermark, size: parseFloat(e.target.value) } })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                  />
+                </label>
+                <label className="block text-xs text-gray-400">
+                  Opacity: {Math.round(watermark.opacity * 100)}%
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="1"
+                    step="0.05"
+                    value={watermark.opacity}
+                    onChange={(e) => onSettingsChange({ ...settings, watermark: { ...watermark, opacity: parseFloat(e.target.value) } })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                  />
+                </label>
+                <button
+                  onClick={() => onSettingsChange({ ...settings, watermark: null })}
+                  className="px-3 py-1 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200"
+                >
+                  Remove Watermark
+                </button>
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 break-all">
+            Saves as <span className="text-gray-300">{fileName}</span>. The file's metadata marks it as AI-edited and records the blend settings.
+          </p>
+          {exportError && <p className="text-sm text-red-300">{exportError}</p>}
+
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">
+              Close
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={isExporting}
+              className="px-4 py-2 text-sm font-semibold rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-500 disabled:cursor-not-allowed"
+            >
+              {isExporting ? 'Exporting...' : 'Download'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,186 @@
+import React from 'react';
+import type { BlendOptions, GenerationEntry } from '../types';
+import { summarizeBlendOptions } from './BlendOptionsPanel';
+import ResultViewer, { isDriftFlagged, type ResultInspection } from './ResultViewer';
+
+interface GenerationHistoryProps {
+  entries: GenerationEntry[];
+  activeEntryId: string | null;
+  compareIds: string[];
+  isBusy: boolean;
+  driftThreshold: number;
+  onDriftThresholdChange: (threshold: number) => void;
+  onInspect: (entry: GenerationEntry) => Promise<ResultInspection>;
+  onSelect: (entryId: string) => void;
+  onToggleFavorite: (entryId: string) => void;
+  onToggleCompare: (entryId: string) => void;
+  onRerun: (entry: GenerationEntry) => void;
+  onLoad: (entry: GenerationEntry) => void;
+  onExport: (entry: GenerationEntry) => void;
+  onUseSettings: (options: BlendOptions) => void;
+  onRemove: (entryId: string) => void;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const GenerationHistory: React.FC<GenerationHistoryProps> = ({
+  entries,
+  activeEntryId,
+  compareIds,
+  isBusy,
+  driftThreshold,
+  onDriftThresholdChange,
+  onInspect,
+  onSelect,
+  onToggleFavorite,
+  onToggleCompare,
+  onRerun,
+  onLoad,
+  onExport,
+  onUseSettings,
+  onRemove,
+}) => {
+  // Pinned favorites come first, then the newest generations.
+  const ordered = [...entries].sort((a, b) => Number(b.favorite) - Number(a.favorite) || b.createdAt.localeCompare(a.createdAt));
+  const active = entries.find(entry => entry.id === activeEntryId) ?? ordered[0];
+  const compared = compareIds.map(id => entries.find(entry => entry.id === id)).filter((entry): entry is GenerationEntry => !!entry);
+  const number = (entry: GenerationEntry) => entries.indexOf(entry) + 1;
+
+  if (!active) return null;
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-3xl font-bold text-center mb-4">Generated Results</h2>
+      <div className="bg-gray-800 p-4 rounded-lg shadow-2xl max-w-5xl mx-auto space-y-4">
+        {compared.length === 2 ? (
+          <div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {compared.map(entry => (
+                <figure key={entry.id} className="space-y-2">
+                  <img src={entry.src} alt={`Generation ${number(entry)}`} className="w-full h-auto object-contain rounded-md" />
+                  <figcaption className="text-xs text-gray-400">
+                    <span className="font-semibold text-gray-200">#{number(entry)}</span> · {summarizeBlendOptions(entry.blendOptions)}
+                    {entry.drift !== undefined && (
+                      <span className={isDriftFlagged(entry, driftThreshold) ? 'text-red-300' : ''}> · background drift {entry.drift}%</span>
+                    )}
+                  </figcaption>
+                </figure>
+              ))}
+            </div>
+            <div className="text-center mt-3">
+              <button
+                onClick={() => compared.forEach(entry => onToggleCompare(entry.id))}
+                className="px-3 py-1 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200"
+              >
+                Exit Comparison
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div>
+            <ResultViewer
+              entry={active}
+              driftThreshold={driftThreshold}
+              onDriftThresholdChange={onDriftThresholdChange}
+              onInspect={onInspect}
+            />
+            <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+              <p className="text-xs text-gray-400">
+                <span className="font-semibold text-gray-200">#{number(active)}</span> · Settings: {summarizeBlendOptions(active.blendOptions)}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => onUseSettings(active.blendOptions)}
+                  className="px-3 py-1 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200"
+                >
+                  Use These Settings
+                </button>
+                <button
+                  onClick={() => onLoad(active)}
+                  className="px-3 py-1 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200"
+                  title="Restore this entry's placement and settings in the editor"
+                >
+                  Load Setup
+                </button>
+                <button
+                  onClick={() => onExport(active)}
+                  className="px-3 py-1 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200"
+                >
+                  Export...
+                </button>
+                <button
+                  onClick={() => onRerun(active)}
+                  disabled={isBusy}
+                  className="px-3 py-1 text-xs font-medium rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-500 disabled:cursor-not-allowed"
+                >
+                  Re-run
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {entries.length > 1 && (
+          <div>
+            <p className="text-xs text-gray-500 mb-2">Click a thumbnail to view it. Tick two to compare them side by side.</p>
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {ordered.map(entry => {
+                const isActive = compared.length < 2 && entry.id === active.id;
+                const isCompared = compareIds.includes(entry.id);
+                return (
+                  <div key={entry.id} className="relative flex-shrink-0 w-32">
+                    <button
+                      onClick={() => onSelect(entry.id)}
+                      className={`block w-full rounded-md overflow-hidden border-2 ${isActive ? 'border-blue-500' : 'border-transparent hover:border-gray-400'}`}
+                      aria-label={`Show generation ${number(entry)}`}
+                    >
+                      <img src={entry.src} alt="" className="w-full h-20 object-cover" />
+                    </button>
+                    {isDriftFlagged(entry, driftThreshold) && (
+                      <span
+                        className="absolute top-1 left-1 px-1 rounded bg-red-900/80 text-xs text-red-200"
+                        title={`The background changed by ${entry.drift}%`}
+                      >
+                        ⚠
+                      </span>
+                    )}
+                    <div className="flex items-center justify-between mt-1 text-xs text-gray-400">
+                      <span>#{number(entry)} · {formatTime(entry.createdAt)}</span>
+                      <button
+                        onClick={() => onRemove(entry.id)}
+                        className="text-gray-500 hover:text-red-400"
+                        aria-label={`Delete generation ${number(entry)}`}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                    <label className="flex items-center gap-1 text-xs text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={isCompared}
+                        disabled={!isCompared && compareIds.length >= 2}
+                        onChange={() => onToggleCompare(entry.id)}
+                        className="rounded bg-gray-700"
+                      />
+                      Compare
+                    </label>
+                    <button
+                      onClick={() => onToggleFavorite(entry.id)}
+                      className={`absolute top-1 right-1 w-6 h-6 rounded-full bg-gray-900/80 text-sm ${entry.favorite ? 'text-yellow-400' : 'text-gray-400 hover:text-yellow-300'}`}
+                      aria-pressed={entry.favorite}
+                      aria-label={entry.favorite ? 'Unpin favorite' : 'Pin as favorite'}
+                    >
+                      {entry.favorite ? '★' : '☆'}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GenerationHistory;
@@ -1,40 +1,72 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import type { FileInfo } from '../types';
+import { importImageFile, importImageUrl, DEFAULT_UPLOAD_LIMITS, type UploadLimits } from '../services/imageImport';
+import { toServiceError } from '../services/errors';
 import UploadIcon from './icons/UploadIcon';
 
 interface ImageUploaderProps {
-  onImageUpload: (fileInfo: FileInfo) => void;
+  /** Called once per accepted image, in order. A returned promise is awaited before the next one. */
+  onImageUpload: (fileInfo: FileInfo) => void | Promise<void>;
   title: string;
   description: string;
+  /** Accept several images at once from the picker, a drop or a paste. */
+  multiple?: boolean;
+  limits?: UploadLimits;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, title, description }) => {
+const isWebAddress = (text: string) => /^https?:\/\/\S+$/i.test(text.trim());
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, title, description, multiple = false, limits = DEFAULT_UPLOAD_LIMITS }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [rejections, setRejections] = useState<string[]>([]);
+  const [urlInput, setUrlInput] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Several uploaders can be on screen, so a paste goes to the one under the pointer or focused.
+  const isTargetedRef = useRef(false);
 
-  const handleFile = useCallback((file: File) => {
-    if (file && file.type.startsWith('image/')) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const base64 = e.target?.result as string;
-
-        const img = new Image();
-        img.onload = () => {
-          onImageUpload({
-            name: file.name,
-            type: file.type,
-            size: file.size,
-            base64,
-            width: img.naturalWidth,
-            height: img.naturalHeight,
-          });
-        };
-        img.src = base64;
-      };
-      reader.readAsDataURL(file);
+  const runImports = useCallback(async (imports: (() => Promise<FileInfo>)[], notes: string[] = []) => {
+    setIsImporting(true);
+    setRejections(notes);
+    for (const run of imports) {
+      try {
+        const fileInfo = await run();
+        await onImageUpload(fileInfo);
+      } catch (e) {
+        setRejections(prev => [...prev, toServiceError(e).message]);
+      }
     }
+    setIsImporting(false);
   }, [onImageUpload]);
 
+  const handleFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    const accepted = multiple ? files : files.slice(0, 1);
+    const notes = accepted.length < files.length ? [`Only one image can be used here, so "${files[0].name}" was taken.`] : [];
+    runImports(accepted.map(file => () => importImageFile(file, limits)), notes);
+  }, [multiple, limits, runImports]);
+
+  const handleUrl = useCallback((url: string) => {
+    runImports([() => importImageUrl(url.trim(), limits)]);
+  }, [limits, runImports]);
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!isTargetedRef.current || !e.clipboardData) return;
+      const files = Array.from(e.clipboardData.files);
+      const text = e.clipboardData.getData('text');
+      if (files.length > 0) {
+        e.preventDefault();
+        handleFiles(files);
+      } else if (isWebAddress(text)) {
+        e.preventDefault();
+        handleUrl(text);
+      }
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [handleFiles, handleUrl]);
+
   const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -56,27 +88,43 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, title, des
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
-    }
+    const files = Array.from(e.dataTransfer.files);
+    // Images dragged from another browser tab arrive as a link rather than a file.
+    const link = e.dataTransfer.getData('text/uri-list').split('\n').find(line => isWebAddress(line));
+    if (files.length > 0) handleFiles(files);
+    else if (link) handleUrl(link);
   };
-  
+
   const handleClick = () => {
-    fileInputRef.current?.click();
+    if (!isImporting) fileInputRef.current?.click();
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    handleFiles(Array.from(e.target.files ?? []));
+    // Allows picking the same file again after a rejection.
+    e.target.value = '';
+  };
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (urlInput && isWebAddress(urlInput)) {
+      handleUrl(urlInput);
+      setUrlInput(null);
     }
   };
-  
+
   return (
     <div
       className={`flex flex-col items-center justify-center p-6 border-2 border-dashed rounded-lg cursor-pointer h-full transition-colors duration-200 ease-in-out
         ${isDragging ? 'border-blue-500 bg-gray-700' : 'border-gray-600 hover:border-blue-400 bg-gray-800'}
       `}
+      tabIndex={0}
       onClick={handleClick}
+      onKeyDown={(e) => { if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) handleClick(); }}
+      onPointerEnter={() => { isTargetedRef.current = true; }}
+      onPointerLeave={() => { isTargetedRef.current = false; }}
+      onFocus={() => { isTargetedRef.current = true; }}
+      onBlur={() => { isTargetedRef.current = false; }}
       onDragEnter={handleDragEnter}
       onDragLeave={handleDragLeave}
       onDragOver={handleDragOver}
@@ -85,13 +133,48 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, title, des
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept="image/*,.heic,.heif"
+        multiple={multiple}
         className="hidden"
         onChange={handleFileChange}
       />
       <UploadIcon className="w-10 h-10 text-gray-400 mb-3" />
       <h3 className="text-lg font-semibold text-white">{title}</h3>
-      <p className="text-sm text-gray-400 text-center">{description}</p>
+      <p className="text-sm text-gray-400 text-center">{isImporting ? 'Reading image...' : description}</p>
+      <p className="text-xs text-gray-500 text-center mt-1">
+        You can also paste an image or link here.{' '}
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            setUrlInput(prev => prev === null ? '' : null);
+          }}
+          className="text-blue-400 hover:underline"
+        >
+          Import from URL
+        </button>
+      </p>
+      {urlInput !== null && (
+        <form onSubmit={handleUrlSubmit} onClick={(e) => e.stopPropagation()} className="flex gap-2 mt-2 w-full max-w-sm">
+          <input
+            type="url"
+            autoFocus
+            value={urlInput}
+            onChange={(e) => setUrlInput(e.target.value)}
+            placeholder="https://example.com/car.jpg"
+            aria-label="Image address"
+            className="flex-1 bg-gray-700 text-white text-sm rounded-md px-2 py-1"
+          />
+          <button type="submit" className="px-3 py-1 text-sm font-medium rounded-md bg-blue-600 hover:bg-blue-700 text-white">
+            Import
+          </button>
+        </form>
+      )}
+      {rejections.length > 0 && (
+        <ul className="mt-2 text-xs text-red-300 text-left space-y-1" role="alert">
+          {rejections.map((message, i) => <li key={i}>{message}</li>)}
+        </ul>
+      )}
     </div>
   );
 };
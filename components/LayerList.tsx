@@ -0,0 +1,66 @@
+import React from 'react';
+import type { ExtractedVehicle, VehicleLayer } from '../types';
+
+interface LayerListProps {
+  layers: VehicleLayer[];
+  vehicles: ExtractedVehicle[];
+  selectedLayerId: string | null;
+  onSelect: (layerId: string) => void;
+  onMove: (layerId: string, direction: 'forward' | 'backward') => void;
+  onRemove: (layerId: string) => void;
+}
+
+const LayerList: React.FC<LayerListProps> = ({ layers, vehicles, selectedLayerId, onSelect, onMove, onRemove }) => {
+  if (layers.length === 0) {
+    return <p className="text-sm text-gray-500 text-center">No vehicles placed yet.</p>;
+  }
+
+  // Front-most layer first, matching how layer stacks are usually shown.
+  const ordered = [...layers].sort((a, b) => b.zIndex - a.zIndex);
+
+  return (
+    <ul className="w-full space-y-2">
+      {ordered.map((layer, index) => {
+        const vehicle = vehicles.find(v => v.id === layer.vehicleId);
+        const isSelected = layer.id === selectedLayerId;
+        return (
+          <li
+            key={layer.id}
+            className={`flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors duration-200
+              ${isSelected ? 'bg-blue-900/60 ring-1 ring-blue-500' : 'bg-gray-700 hover:bg-gray-600'}
+            `}
+            onClick={() => onSelect(layer.id)}
+          >
+            {vehicle && <img src={vehicle.src} alt="" className="w-10 h-6 object-contain flex-shrink-0" />}
+            <span className="flex-grow text-xs text-gray-200 truncate">{vehicle?.name ?? 'Vehicle'}</span>
+            <button
+              onClick={(e) => { e.stopPropagation(); onMove(layer.id, 'forward'); }}
+              disabled={index === 0}
+              className="px-1 text-gray-300 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed"
+              aria-label="Bring forward"
+            >
+              ↑
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onMove(layer.id, 'backward'); }}
+              disabled={index === ordered.length - 1}
+              className="px-1 text-gray-300 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed"
+              aria-label="Send backward"
+            >
+              ↓
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onRemove(layer.id); }}
+              className="px-1 text-red-400 hover:text-red-300"
+              aria-label="Remove vehicle"
+            >
+              ✕
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default LayerList;
@@ -0,0 +1,317 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ExtractedVehicle } from '../types';
+import {
+  applyEdgeSettings,
+  buildColorSource,
+  composeMaskedImage,
+  cropImageData,
+  estimateAlignment,
+  extractAlpha,
+  getAlphaBounds,
+  paintStroke,
+  type Alignment,
+  type BrushMode,
+  type EdgeSettings,
+} from '../services/maskRefinement';
+import { createCanvas, imageDataToDataUrl, loadImage } from '../utils/image';
+
+export interface RefinedCutout {
+  src: string;
+  width: number;
+  height: number;
+  /** The refined image's frame in the previous cutout's pixels. */
+  crop: { x: number; y: number; width: number; height: number };
+}
+
+interface MaskEditorProps {
+  vehicle: ExtractedVehicle;
+  onApply: (result: RefinedCutout) => void;
+  onCancel: () => void;
+}
+
+interface EditorSources {
+  cutout: HTMLImageElement;
+  original: HTMLImageElement | null;
+  padding: number;
+  width: number;
+  height: number;
+}
+
+// Room around the cutout so restore can bring back parts the model cropped off.
+const PADDING_RATIO = 0.1;
+const NO_EDGES: EdgeSettings = { grow: 0, feather: 0 };
+
+const tools: { mode: BrushMode; label: string }[] = [
+  { mode: 'restore', label: 'Restore' },
+  { mode: 'erase', label: 'Erase' },
+  { mode: 'glass', label: 'Glass' },
+];
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ vehicle, onApply, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const ghostRef = useRef<HTMLCanvasElement>(null);
+  // The hand-painted mask, before edge settings, and the mask on screen.
+  const baseAlphaRef = useRef<Uint8ClampedArray | null>(null);
+  const shownAlphaRef = useRef<Uint8ClampedArray | null>(null);
+  const colorRef = useRef<ImageData | null>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const [sources, setSources] = useState<EditorSources | null>(null);
+  const [alignment, setAlignment] = useState<Alignment | null>(null);
+  const [tool, setTool] = useState<BrushMode>('erase');
+  const [brushSize, setBrushSize] = useState<number>(20);
+  const [glassOpacity, setGlassOpacity] = useState<number>(0.5);
+  const [edges, setEdges] = useState<EdgeSettings>(NO_EDGES);
+  const [showOriginal, setShowOriginal] = useState<boolean>(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const resetMask = (current: EditorSources) => {
+    const { ctx } = createCanvas(current.width, current.height);
+    ctx.drawImage(current.cutout, current.padding, current.padding);
+    baseAlphaRef.current = extractAlpha(ctx.getImageData(0, 0, current.width, current.height));
+  };
+
+  // A re-rendered angle no longer lines up with the uploaded photo.
+  const activeVariant = vehicle.variants?.find(variant => variant.id === vehicle.activeVariantId);
+  const sourcePhoto = activeVariant?.direction ? undefined : vehicle.source;
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadImage(vehicle.src), sourcePhoto ? loadImage(sourcePhoto.base64) : Promise.resolve(null)])
+      .then(([cutout, original]) => {
+        if (cancelled) return;
+        const padding = original ? Math.round(Math.max(cutout.naturalWidth, cutout.naturalHeight) * PADDING_RATIO) : 0;
+        const loaded = {
+          cutout,
+          original,
+          padding,
+          width: cutout.naturalWidth + padding * 2,
+          height: cutout.naturalHeight + padding * 2,
+        };
+        resetMask(loaded);
+        setSources(loaded);
+        // Let the "Aligning" state paint before the blocking search runs.
+        setTimeout(() => {
+          if (cancelled) return;
+          setAlignment(original ? estimateAlignment(cutout, original) : { offsetX: 0, offsetY: 0, scale: 1 });
+        }, 0);
+      })
+      .catch(e => {
+        if (!cancelled) setLoadError(e.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [vehicle.src, sourcePhoto]);
+
+  const render = () => {
+    const canvas = canvasRef.current;
+    const color = colorRef.current;
+    const alpha = shownAlphaRef.current;
+    if (!canvas || !color || !alpha) return;
+    canvas.getContext('2d')?.putImageData(composeMaskedImage(color, alpha), 0, 0);
+  };
+
+  const refreshMask = (settings: EdgeSettings) => {
+    if (!sources || !baseAlphaRef.current) return;
+    shownAlphaRef.current = applyEdgeSettings(baseAlphaRef.current, sources.width, sources.height, settings);
+    render();
+  };
+
+  useEffect(() => {
+    if (!sources || !alignment) return;
+    colorRef.current = buildColorSource(sources.cutout, sources.original, alignment, sources.padding);
+    ghostRef.current?.getContext('2d')?.putImageData(colorRef.current, 0, 0);
+    refreshMask(edges);
+  }, [sources, alignment]);
+
+  useEffect(() => {
+    refreshMask(edges);
+  }, [edges]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  const paint = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    if (!sources || !baseAlphaRef.current || !shownAlphaRef.current) return;
+    const glassAlpha = Math.round(glassOpacity * 255);
+    // Paint into both masks so strokes show immediately; edges are re-applied on release.
+    for (const alpha of [baseAlphaRef.current, shownAlphaRef.current]) {
+      paintStroke(alpha, sources.width, sources.height, from, to, brushSize / 2, tool, glassAlpha);
+    }
+    render();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    lastPointRef.current = point;
+    paint(point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    const point = toCanvasPoint(e);
+    paint(lastPointRef.current, point);
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    refreshMask(edges);
+  };
+
+  const nudgeAlignment = (dx: number, dy: number, scaleFactor: number = 1) => {
+    setAlignment(prev => prev && { offsetX: prev.offsetX + dx, offsetY: prev.offsetY + dy, scale: prev.scale * scaleFactor });
+  };
+
+  const handleReset = () => {
+    if (!sources) return;
+    resetMask(sources);
+    setEdges(NO_EDGES);
+    refreshMask(NO_EDGES);
+  };
+
+  const handleApply = () => {
+    const color = colorRef.current;
+    const alpha = shownAlphaRef.current;
+    if (!sources || !color || !alpha) return;
+    const bounds = getAlphaBounds(alpha, sources.width, sources.height);
+    if (!bounds) {
+      setLoadError("The mask is empty. Restore part of the vehicle before applying.");
+      return;
+    }
+    const cropped = cropImageData(composeMaskedImage(color, alpha), bounds);
+    onApply({
+      src: imageDataToDataUrl(cropped),
+      width: bounds.width,
+      height: bounds.height,
+      crop: { ...bounds, x: bounds.x - sources.padding, y: bounds.y - sources.padding },
+    });
+  };
+
+  const isReady = sources !== null && alignment !== null;
+  const nudgeStep = alignment ? Math.max(1, alignment.scale) : 1;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Refine mask">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl max-h-full overflow-auto p-4 flex flex-col lg:flex-row gap-4">
+        <div className="flex-1 flex items-center justify-center min-h-[300px] bg-grid-pattern rounded-md relative">
+          {!isReady && !loadError && <p className="text-white font-semibold">{sources ? 'Aligning with the original photo...' : 'Loading...'}</p>}
+          {sources && (
+            <div className={`relative ${isReady ? '' : 'invisible'}`}>
+              <canvas
+                ref={ghostRef}
+                width={sources.width}
+                height={sources.height}
+                className={`absolute inset-0 w-full h-full opacity-30 pointer-events-none ${showOriginal && sources.original ? '' : 'hidden'}`}
+              />
+              <canvas
+                ref={canvasRef}
+                width={sources.width}
+                height={sources.height}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className="relative block max-w-full max-h-[70vh] cursor-crosshair"
+                style={{ touchAction: 'none' }}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="w-full lg:w-64 space-y-4 text-sm text-gray-300">
+          <h3 className="text-lg font-bold text-white">Refine Mask</h3>
+          {loadError && <p className="text-red-300">{loadError}</p>}
+
+          <div className="grid grid-cols-3 gap-1" role="group" aria-label="Brush">
+            {tools.map(option => (
+              <button
+                key={option.mode}
+                onClick={() => setTool(option.mode)}
+                aria-pressed={tool === option.mode}
+                className={`px-2 py-1.5 rounded-md font-medium ${tool === option.mode ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {tool === 'restore' && !sourcePhoto && (
+            <p className="text-xs text-yellow-300">The original photo is not available, so restore brings back the cutout's own pixels only.</p>
+          )}
+
+          <div>
+            <label htmlFor="mask-brush-size" className="block font-semibold mb-1">Brush size: {brushSize}px</label>
+            <input id="mask-brush-size" type="range" min="2" max="150" step="1" value={brushSize}
+              onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+          </div>
+          {tool === 'glass' && (
+            <div>
+              <label htmlFor="mask-glass-opacity" className="block font-semibold mb-1">Glass opacity: {Math.round(glassOpacity * 100)}%</label>
+              <input id="mask-glass-opacity" type="range" min="0.05" max="0.95" step="0.05" value={glassOpacity}
+                onChange={(e) => setGlassOpacity(parseFloat(e.target.value))}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="mask-grow" className="block font-semibold mb-1">Shrink / grow edge: {edges.grow}px</label>
+            <input id="mask-grow" type="range" min="-10" max="10" step="1" value={edges.grow}
+              onChange={(e) => setEdges(prev => ({ ...prev, grow: parseInt(e.target.value, 10) }))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+          </div>
+          <div>
+            <label htmlFor="mask-feather" className="block font-semibold mb-1">Feather: {edges.feather}px</label>
+            <input id="mask-feather" type="range" min="0" max="10" step="1" value={edges.feather}
+              onChange={(e) => setEdges(prev => ({ ...prev, feather: parseInt(e.target.value, 10) }))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+          </div>
+
+          {sources?.original && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={showOriginal} onChange={(e) => setShowOriginal(e.target.checked)} className="rounded bg-gray-700" />
+                Show original photo
+              </label>
+              <p className="text-xs text-gray-500">If restored areas look offset, nudge the original photo into place.</p>
+              <div className="grid grid-cols-3 gap-1">
+                <button onClick={() => nudgeAlignment(0, 0, 1.01)} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600" aria-label="Shrink original">−</button>
+                <button onClick={() => nudgeAlignment(0, nudgeStep)} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600" aria-label="Move original up">↑</button>
+                <button onClick={() => nudgeAlignment(0, 0, 1 / 1.01)} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600" aria-label="Enlarge original">+</button>
+                <button onClick={() => nudgeAlignment(nudgeStep, 0)} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600" aria-label="Move original left">←</button>
+                <button onClick={() => nudgeAlignment(0, -nudgeStep)} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600" aria-label="Move original down">↓</button>
+                <button onClick={() => nudgeAlignment(-nudgeStep, 0)} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600" aria-label="Move original right">→</button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <button onClick={handleReset} disabled={!isReady} className="flex-1 px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50">
+              Reset
+            </button>
+            <button onClick={onCancel} className="flex-1 px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-white">
+              Cancel
+            </button>
+          </div>
+          <button
+            onClick={handleApply}
+            disabled={!isReady}
+            className="w-full px-3 py-2 rounded-md font-semibold bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-500 disabled:cursor-not-allowed"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,124 @@
+import React, { useRef } from 'react';
+import type { ExtractedVehicle, VehicleLayer } from '../types';
+import { getContactY, getFootprintTilt, getPlacementAspect, type SceneCalibration } from '../services/perspective';
+import { trackPointer } from '../utils/pointer';
+
+interface PerspectiveGuideProps {
+  calibration: SceneCalibration;
+  layers: VehicleLayer[];
+  vehicles: ExtractedVehicle[];
+  background: { width: number; height: number };
+  contentRect: { x: number; y: number; width: number; height: number };
+  onChange: (calibration: SceneCalibration) => void;
+}
+
+// Ground lines fanning out from the vanishing point to the bottom edge.
+const RAY_TARGETS = [-1, -0.5, 0, 0.25, 0.5, 0.75, 1, 1.5, 2];
+// A footprint is drawn this much wider than the car and this flat before tilting.
+const FOOTPRINT_WIDTH = 1.1;
+const FOOTPRINT_ASPECT = 0.45;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * Placement assist: draws the calibrated horizon and vanishing point with
+ * draggable handles, plus a ground-contact footprint under every vehicle.
+ */
+const PerspectiveGuide: React.FC<PerspectiveGuideProps> = ({
+  calibration,
+  layers,
+  vehicles,
+  background,
+  contentRect,
+  onChange,
+}) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  const beginDrag = (e: React.PointerEvent, moveVanishingPoint: boolean) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = rootRef.current!.getBoundingClientRect();
+    // The size reference keeps its distance below the horizon as the horizon moves.
+    const referenceDepth = calibration.referenceY - calibration.horizonY;
+
+    trackPointer((ev) => {
+      const horizonY = clamp01((ev.clientY - rect.top) / rect.height);
+      onChange({
+        ...calibration,
+        horizonY,
+        referenceY: horizonY + referenceDepth,
+        vanishingX: moveVanishingPoint ? clamp01((ev.clientX - rect.left) / rect.width) : calibration.vanishingX,
+      });
+    }, () => {});
+  };
+
+  const { horizonY, vanishingX } = calibration;
+
+  return (
+    <div
+      ref={rootRef}
+      className="absolute pointer-events-none"
+      style={{
+        left: `${contentRect.x}px`,
+        top: `${contentRect.y}px`,
+        width: `${contentRect.width}px`,
+        height: `${contentRect.height}px`,
+        perspective: '1000px',
+      }}
+    >
+      <svg className="absolute inset-0 w-full h-full overflow-visible" viewBox="0 0 1 1" preserveAspectRatio="none">
+        {RAY_TARGETS.map(target => (
+          <line
+            key={target}
+            x1={vanishingX}
+            y1={horizonY}
+            x2={target}
+            y2={1}
+            stroke="rgba(34, 211, 238, 0.35)"
+            strokeWidth="1"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        <line x1="0" y1={horizonY} x2="1" y2={horizonY} stroke="rgb(34, 211, 238)" strokeWidth="1.5" strokeDasharray="6 4" vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      {layers.map(layer => {
+        const vehicle = vehicles.find(v => v.id === layer.vehicleId);
+        if (!vehicle) return null;
+        const contactY = getContactY(layer.placement, getPlacementAspect(vehicle, background));
+        const width = layer.placement.scale * contentRect.width * FOOTPRINT_WIDTH;
+        return (
+          <div
+            key={layer.id}
+            className="absolute rounded-full"
+            style={{
+              left: `${layer.placement.x * 100}%`,
+              top: `${contactY * 100}%`,
+              width: `${width}px`,
+              height: `${width * FOOTPRINT_ASPECT}px`,
+              background: 'radial-gradient(ellipse at center, rgba(34, 211, 238, 0.45) 0%, rgba(34, 211, 238, 0) 70%)',
+              transform: `translate(-50%, -50%) rotateX(${getFootprintTilt(contactY, horizonY)}deg)`,
+            }}
+          />
+        );
+      })}
+
+      <div
+        onPointerDown={(e) => beginDrag(e, false)}
+        className="absolute right-1 -translate-y-1/2 px-2 py-0.5 text-[10px] font-semibold rounded bg-cyan-500 text-gray-900 cursor-ns-resize pointer-events-auto select-none"
+        style={{ top: `${horizonY * 100}%`, touchAction: 'none' }}
+        aria-label="Drag to set the horizon"
+      >
+        Horizon
+      </div>
+      <div
+        onPointerDown={(e) => beginDrag(e, true)}
+        className="absolute w-4 h-4 -translate-x-1/2 -translate-y-1/2 rounded-full bg-cyan-400 border-2 border-white cursor-move pointer-events-auto"
+        style={{ left: `${vanishingX * 100}%`, top: `${horizonY * 100}%`, touchAction: 'none' }}
+        aria-label="Drag to set the vanishing point"
+      />
+    </div>
+  );
+};
+
+export default PerspectiveGuide;
@@ -0,0 +1,65 @@
+import React from 'react';
+import type { NormalizedPlacement } from '../types';
+
+interface PlacementPickerProps {
+  backgroundSrc: string;
+  vehicleSrc?: string;
+  placement: NormalizedPlacement;
+  onChange: (placement: NormalizedPlacement) => void;
+}
+
+const PlacementPicker: React.FC<PlacementPickerProps> = ({ backgroundSrc, vehicleSrc, placement, onChange }) => {
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = (e.clientY - rect.top) / rect.height;
+    onChange({
+      ...placement,
+      x: Math.min(Math.max(x, 0), 1),
+      y: Math.min(Math.max(y, 0), 1),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative w-full cursor-crosshair overflow-hidden rounded-md" onClick={handleClick}>
+        <img src={backgroundSrc} alt="Batch background" className="w-full h-auto block" draggable={false} />
+        {vehicleSrc ? (
+          <img
+            src={vehicleSrc}
+            alt="Placement preview"
+            className="absolute pointer-events-none drop-shadow-2xl"
+            style={{
+              left: `${placement.x * 100}%`,
+              top: `${placement.y * 100}%`,
+              width: `${placement.scale * 100}%`,
+              maxWidth: 'none',
+              transform: `translate(-50%, -50%) rotate(${placement.rotation}deg) scaleX(${placement.flipX ? -1 : 1})`,
+            }}
+          />
+        ) : (
+          <div
+            className="absolute w-3 h-3 rounded-full bg-red-500 ring-2 ring-white pointer-events-none -translate-x-1/2 -translate-y-1/2"
+            style={{ left: `${placement.x * 100}%`, top: `${placement.y * 100}%` }}
+          />
+        )}
+      </div>
+      <div>
+        <label className="block text-sm font-semibold text-gray-300 mb-1">
+          Vehicle width: {Math.round(placement.scale * 100)}% of scene
+        </label>
+        <input
+          type="range"
+          min="0.05"
+          max="1"
+          step="0.01"
+          value={placement.scale}
+          onChange={(e) => onChange({ ...placement, scale: parseFloat(e.target.value) })}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PlacementPicker;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import type { GenerationEntry } from '../types';
+import type { DriftAnalysis } from '../services/fidelity';
+import { changesWholeScene } from '../services/blendOptions';
+
+export interface ResultInspection {
+  /** The pre-blend canvas composite the model was given. */
+  composite: string;
+  analysis: DriftAnalysis;
+}
+
+interface ResultViewerProps {
+  entry: GenerationEntry;
+  driftThreshold: number;
+  onDriftThresholdChange: (threshold: number) => void;
+  onInspect: (entry: GenerationEntry) => Promise<ResultInspection>;
+}
+
+type ViewMode = 'result' | 'before-after' | 'difference';
+
+const viewModeLabels: Record<ViewMode, string> = {
+  'result': 'Result',
+  'before-after': 'Before / After',
+  'difference': 'Background Diff',
+};
+
+/**
+ * Whether the model changed more of the background than the user tolerates.
+ * Never for results where the user asked for a scene-wide change like night or rain.
+ */
+export const isDriftFlagged = (entry: GenerationEntry, threshold: number) =>
+  entry.drift !== undefined && entry.drift > threshold && !changesWholeScene(entry.blendOptions);
+
+const ResultViewer: React.FC<ResultViewerProps> = ({ entry, driftThreshold, onDriftThresholdChange, onInspect }) => {
+  const [mode, setMode] = useState<ViewMode>('result');
+  const [split, setSplit] = useState<number>(50);
+  const [inspection, setInspection] = useState<{ entryId: string; data: ResultInspection } | null>(null);
+  const [inspectError, setInspectError] = useState<string | null>(null);
+
+  const current = inspection?.entryId === entry.id ? inspection.data : null;
+
+  // The composite is rebuilt from the entry's inputs only when a comparison view asks for it.
+  useEffect(() => {
+    if (mode === 'result' || current) return;
+    let isCurrent = true;
+    setInspectError(null);
+    onInspect(entry)
+      .then(data => { if (isCurrent) setInspection({ entryId: entry.id, data }); })
+      .catch(e => {
+        console.error(e);
+        if (isCurrent) setInspectError("Couldn't rebuild the original composite for this result.");
+      });
+    return () => { isCurrent = false; };
+  }, [mode, entry.id]);
+
+  const flagged = isDriftFlagged(entry, driftThreshold);
+  const sceneChanged = changesWholeScene(entry.blendOptions);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-1" role="group" aria-label="Result view">
+          {(Object.keys(viewModeLabels) as ViewMode[]).map(value => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              aria-pressed={mode === value}
+              className={`px-3 py-1 text-xs font-medium rounded-md ${mode === value ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+            >
+              {viewModeLabels[value]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          {entry.drift !== undefined && (
+            <span
+              className={`px-2 py-0.5 rounded-full font-semibold ${flagged ? 'bg-red-900/60 text-red-300' : 'bg-gray-700 text-gray-300'}`}
+              title={sceneChanged ? 'This result asked for a scene-wide change, so the background is expected to differ.' : undefined}
+            >
+              {flagged && '⚠ '}Background drift: {entry.drift}%{sceneChanged && ' (scene change requested)'}
+            </span>
+          )}
+          <label className="flex items-center gap-1 text-gray-400">
+            Flag above
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="0.5"
+              value={driftThreshold}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!Number.isNaN(value)) onDriftThresholdChange(Math.min(Math.max(value, 0), 100));
+              }}
+              className="w-16 bg-gray-700 text-white rounded-md px-1 py-0.5"
+            />
+            %
+          </label>
+        </div>
+      </div>
+
+      {mode === 'result' ? (
+        <img src={entry.src} alt="Generated vehicle in background" className="w-full h-auto object-contain rounded-md" />
+      ) : inspectError ? (
+        <p className="text-sm text-red-300 text-center py-8">{inspectError}</p>
+      ) : !current ? (
+        <p className="text-sm text-gray-400 text-center py-8">Comparing with the original composite...</p>
+      ) : mode === 'before-after' ? (
+        <div>
+          <div className="relative select-none">
+            <img src={entry.src} alt="After blending" className="w-full h-auto object-contain rounded-md" />
+            {/* The composite is stretched to the result's box in case the model changed the resolution. */}
+            <img
+              src={current.composite}
+              alt="Before blending"
+              className="absolute inset-0 w-full h-full rounded-md"
+              style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${split}%` }} />
+            <span className="absolute top-2 left-2 px-2 py-0.5 text-xs rounded bg-gray-900/70 text-gray-200">Before</span>
+            <span className="absolute top-2 right-2 px-2 py-0.5 text-xs rounded bg-gray-900/70 text-gray-200">After</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={split}
+            onChange={(e) => setSplit(parseFloat(e.target.value))}
+            aria-label="Before and after split"
+            className="w-full h-2 mt-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      ) : (
+        <figure className="space-y-1">
+          <img src={current.analysis.heatmap} alt="Background difference heatmap" className="w-full h-auto object-contain rounded-md" />
+          <figcaption className="text-xs text-gray-400">
+            Red shows where the background changed. The vehicles and the area around them, where shadows and reflections are expected, are shaded blue and ignored.
+          </figcaption>
+        </figure>
+      )}
+    </div>
+  );
+};
+
+export default ResultViewer;
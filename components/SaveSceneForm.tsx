@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { parseTags } from '../services/backgroundLibrary';
+
+interface SaveSceneFormProps {
+  initialName: string;
+  initialTags: string[];
+  /** The background is already in the library, so saving overwrites its entry. */
+  isSaved: boolean;
+  onSave: (name: string, tags: string[]) => Promise<void>;
+}
+
+/** Saves the current background, placement zone and blend settings to the library. */
+const SaveSceneForm: React.FC<SaveSceneFormProps> = ({ initialName, initialTags, isSaved, onSave }) => {
+  const [name, setName] = useState<string>(initialName);
+  const [tags, setTags] = useState<string>(initialTags.join(', '));
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus(null);
+    try {
+      await onSave(name.trim() || initialName, parseTags(tags));
+      setStatus('Saved to the library.');
+    } catch (err) {
+      console.error(err);
+      setStatus("Couldn't save to the library. The browser may be out of storage space.");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        aria-label="Scene name"
+        placeholder="Scene name"
+        className="w-full bg-gray-700 text-white text-sm rounded-md px-2 py-1"
+      />
+      <input
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        aria-label="Tags"
+        placeholder="Tags, e.g. showroom, indoor"
+        className="w-full bg-gray-700 text-white text-sm rounded-md px-2 py-1"
+      />
+      <button type="submit" className="w-full px-3 py-1 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">
+        {isSaved ? 'Update Library Scene' : 'Save Scene to Library'}
+      </button>
+      <p className="text-xs text-gray-500">
+        Stores the selected vehicle's position and size as the scene's placement zone, along with the current blend options.
+      </p>
+      {status && <p className="text-xs text-gray-300">{status}</p>}
+    </form>
+  );
+};
+
+export default SaveSceneForm;
@@ -0,0 +1,49 @@
+import React from 'react';
+import type { CachedCutout } from '../services/cutoutCache';
+
+interface SavedVehiclesTrayProps {
+  cutouts: CachedCutout[];
+  onUse: (cutout: CachedCutout) => void;
+  onRemove: (key: string) => void;
+}
+
+export const SAVED_VEHICLE_DRAG_TYPE = 'application/saved-vehicle-key';
+
+/** Cars extracted in earlier sessions. Drag one onto the scene, or click to add it to the panel. */
+const SavedVehiclesTray: React.FC<SavedVehiclesTrayProps> = ({ cutouts, onUse, onRemove }) => {
+  if (cutouts.length === 0) return null;
+
+  return (
+    <details className="w-full">
+      <summary className="cursor-pointer text-sm font-semibold text-gray-300">Saved Vehicles ({cutouts.length})</summary>
+      <div className="grid grid-cols-2 gap-2 mt-2">
+        {cutouts.map(cutout => (
+          <div key={cutout.key} className="relative">
+            <button
+              onClick={() => onUse(cutout)}
+              draggable="true"
+              onDragStart={(e) => {
+                e.dataTransfer.setData(SAVED_VEHICLE_DRAG_TYPE, cutout.key);
+                e.dataTransfer.effectAllowed = 'copy';
+              }}
+              className="block w-full p-1 bg-grid-pattern rounded-md border border-gray-600 hover:border-blue-400 cursor-grab active:cursor-grabbing"
+              title={cutout.name}
+              aria-label={`Add ${cutout.name}`}
+            >
+              <img src={cutout.cutout.src} alt="" className="w-full h-14 object-contain" draggable={false} />
+            </button>
+            <button
+              onClick={() => onRemove(cutout.key)}
+              className="absolute top-0.5 right-0.5 w-5 h-5 rounded-full bg-gray-900/80 text-[10px] text-gray-400 hover:text-red-400"
+              aria-label={`Forget ${cutout.name}`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default SavedVehiclesTray;
@@ -0,0 +1,218 @@
+import React, { useRef, useState } from 'react';
+import type { ExtractedVehicle, NormalizedPlacement, VehicleLayer } from '../types';
+import { trackPointer } from '../utils/pointer';
+
+interface TransformOverlayProps {
+  layers: VehicleLayer[];
+  vehicles: ExtractedVehicle[];
+  selectedLayerId: string | null;
+  contentRect: { x: number; y: number; width: number; height: number };
+  snapping: boolean;
+  /** When set, moving a vehicle resizes it with depth: returns the width for `layer` moved to `y`. */
+  scaleForDepth?: (layer: VehicleLayer, y: number) => number;
+  onSelect: (layerId: string) => void;
+  onChange: (layerId: string, placement: NormalizedPlacement) => void;
+  onFlip: (layerId: string) => void;
+  onRemove: (layerId: string) => void;
+}
+
+interface Guides {
+  x?: number;
+  y?: number;
+}
+
+const SNAP_DISTANCE_PX = 8;
+const ROTATION_SNAP_DEG = 15;
+const MIN_SCALE = 0.02;
+const MAX_SCALE = 2;
+
+const corners = [
+  { key: 'nw', className: 'left-0 top-0 cursor-nwse-resize' },
+  { key: 'ne', className: 'left-full top-0 cursor-nesw-resize' },
+  { key: 'se', className: 'left-full top-full cursor-nwse-resize' },
+  { key: 'sw', className: 'left-0 top-full cursor-nesw-resize' },
+];
+
+const normalizeAngle = (deg: number) => ((deg + 540) % 360) - 180;
+
+const TransformOverlay: React.FC<TransformOverlayProps> = ({
+  layers,
+  vehicles,
+  selectedLayerId,
+  contentRect,
+  snapping,
+  scaleForDepth,
+  onSelect,
+  onChange,
+  onFlip,
+  onRemove,
+}) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [guides, setGuides] = useState<Guides | null>(null);
+
+  const ordered = [...layers].sort((a, b) => a.zIndex - b.zIndex);
+  const selectedLayer = layers.find(layer => layer.id === selectedLayerId) ?? null;
+  const selectedVehicle = selectedLayer ? vehicles.find(v => v.id === selectedLayer.vehicleId) : undefined;
+
+  const getCenterOnScreen = (placement: NormalizedPlacement) => {
+    const rect = rootRef.current!.getBoundingClientRect();
+    return { x: rect.left + placement.x * rect.width, y: rect.top + placement.y * rect.height };
+  };
+
+  const beginMove = (e: React.PointerEvent, layer: VehicleLayer) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onSelect(layer.id);
+
+    const start = layer.placement;
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const { width, height } = rootRef.current!.getBoundingClientRect();
+
+    // Vehicles snap to the scene's center lines and to each other's centers.
+    const others = layers.filter(other => other.id !== layer.id);
+    const targetsX = [0.5, ...others.map(other => other.placement.x)];
+    const targetsY = [0.5, ...others.map(other => other.placement.y)];
+    const snapTo = (value: number, targets: number[], size: number) =>
+      targets.find(target => Math.abs(target - value) * size <= SNAP_DISTANCE_PX);
+
+    trackPointer((ev) => {
+      let x = start.x + (ev.clientX - startX) / width;
+      let y = start.y + (ev.clientY - startY) / height;
+      const nextGuides: Guides = {};
+      if (snapping && !ev.altKey) {
+        const snapX = snapTo(x, targetsX, width);
+        const snapY = snapTo(y, targetsY, height);
+        if (snapX !== undefined) x = nextGuides.x = snapX;
+        if (snapY !== undefined) y = nextGuides.y = snapY;
+      }
+      setGuides(nextGuides);
+      onChange(layer.id, { ...start, x, y, scale: scaleForDepth ? scaleForDepth(layer, y) : start.scale });
+    }, () => setGuides(null));
+  };
+
+  const beginResize = (e: React.PointerEvent, layer: VehicleLayer) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const start = layer.placement;
+    const center = getCenterOnScreen(start);
+    const startDistance = Math.hypot(e.clientX - center.x, e.clientY - center.y) || 1;
+
+    trackPointer((ev) => {
+      const distance = Math.hypot(ev.clientX - center.x, ev.clientY - center.y);
+      const scale = Math.min(Math.max(start.scale * (distance / startDistance), MIN_SCALE), MAX_SCALE);
+      onChange(layer.id, { ...start, scale });
+    }, () => {});
+  };
+
+  const beginRotate = (e: React.PointerEvent, layer: VehicleLayer) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const start = layer.placement;
+    const center = getCenterOnScreen(start);
+    const startAngle = Math.atan2(e.clientY - center.y, e.clientX - center.x);
+
+    trackPointer((ev) => {
+      const angle = Math.atan2(ev.clientY - center.y, ev.clientX - center.x);
+      let rotation = normalizeAngle(start.rotation + ((angle - startAngle) * 180) / Math.PI);
+      if (ev.shiftKey) rotation = Math.round(rotation / ROTATION_SNAP_DEG) * ROTATION_SNAP_DEG;
+      onChange(layer.id, { ...start, rotation });
+    }, () => {});
+  };
+
+  return (
+    <div
+      ref={rootRef}
+      className="absolute pointer-events-none"
+      style={{
+        left: `${contentRect.x}px`,
+        top: `${contentRect.y}px`,
+        width: `${contentRect.width}px`,
+        height: `${contentRect.height}px`,
+      }}
+    >
+      {ordered.map(layer => {
+        const vehicle = vehicles.find(v => v.id === layer.vehicleId);
+        if (!vehicle) return null;
+        const { placement } = layer;
+        return (
+          <img
+            key={layer.id}
+            src={vehicle.src}
+            alt={vehicle.name}
+            draggable={false}
+            onPointerDown={(e) => beginMove(e, layer)}
+            className="absolute pointer-events-auto cursor-move drop-shadow-2xl select-none"
+            style={{
+              left: `${placement.x * 100}%`,
+              top: `${placement.y * 100}%`,
+              width: `${placement.scale * 100}%`,
+              maxWidth: 'none',
+              touchAction: 'none',
+              transform: `translate(-50%, -50%) rotate(${placement.rotation}deg) scaleX(${placement.flipX ? -1 : 1})`,
+            }}
+          />
+        );
+      })}
+
+      {guides?.x !== undefined && (
+        <div className="absolute top-0 bottom-0 w-px bg-pink-500" style={{ left: `${guides.x * 100}%` }} />
+      )}
+      {guides?.y !== undefined && (
+        <div className="absolute left-0 right-0 h-px bg-pink-500" style={{ top: `${guides.y * 100}%` }} />
+      )}
+
+      {selectedLayer && selectedVehicle && (
+        <div
+          className="absolute border-2 border-blue-400"
+          style={{
+            left: `${selectedLayer.placement.x * 100}%`,
+            top: `${selectedLayer.placement.y * 100}%`,
+            width: `${selectedLayer.placement.scale * contentRect.width}px`,
+            height: `${selectedLayer.placement.scale * contentRect.width * (selectedVehicle.height / selectedVehicle.width)}px`,
+            transform: `translate(-50%, -50%) rotate(${selectedLayer.placement.rotation}deg)`,
+          }}
+        >
+          {corners.map(corner => (
+            <div
+              key={corner.key}
+              onPointerDown={(e) => beginResize(e, selectedLayer)}
+              className={`absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 bg-white border-2 border-blue-500 rounded-sm pointer-events-auto ${corner.className}`}
+              style={{ touchAction: 'none' }}
+              aria-label="Resize vehicle"
+            />
+          ))}
+          <div className="absolute left-1/2 -top-6 w-px h-6 bg-blue-400" />
+          <div
+            onPointerDown={(e) => beginRotate(e, selectedLayer)}
+            className="absolute left-1/2 -top-8 w-4 h-4 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white border-2 border-blue-500 cursor-grab pointer-events-auto"
+            style={{ touchAction: 'none' }}
+            aria-label="Rotate vehicle"
+          />
+          <div className="absolute left-1/2 top-full mt-3 -translate-x-1/2 flex gap-1 pointer-events-auto">
+            <button
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onFlip(selectedLayer.id)}
+              className="px-2 py-0.5 text-xs font-semibold rounded bg-gray-900/80 hover:bg-gray-700 text-white whitespace-nowrap"
+              aria-pressed={selectedLayer.placement.flipX}
+            >
+              ⇋ Flip
+            </button>
+            <button
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onRemove(selectedLayer.id)}
+              className="px-2 py-0.5 text-xs font-semibold rounded bg-red-600/90 hover:bg-red-500 text-white"
+              aria-label="Remove vehicle from scene"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransformOverlay;
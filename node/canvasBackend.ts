@@ -0,0 +1,11 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import type { CanvasBackend } from '../utils/image';
+
+/**
+ * A Skia canvas for Node. Its canvases and images implement the parts of
+ * the DOM API the services draw with, so they stand in for the browser's.
+ */
+export const nodeCanvasBackend: CanvasBackend = {
+    createCanvas: (width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement,
+    loadImage: async src => (await loadImage(src)) as unknown as HTMLImageElement,
+};
@@ -0,0 +1,125 @@
+import { parseArgs } from 'node:util';
+import type { NormalizedPlacement } from '../types';
+import { InvalidInputError, toServiceError } from '../services/errors';
+import {
+    createMockProvider,
+    loadJobManifest,
+    runSwapJobs,
+    setImageProvider,
+    type SwapDefaults,
+    type SwapJob,
+} from './index';
+
+const USAGE = `Usage:
+  swap --vehicle car.jpg --background lot.jpg --out result.png [options]
+  swap --manifest jobs.json [options]
+
+Placement, in fractions of the background:
+  --x <n>             Vehicle center from the left edge (default 0.5)
+  --y <n>             Vehicle center from the top edge (default 0.7)
+  --scale <n>         Vehicle width relative to the background width (default 0.35)
+  --rotation <deg>    Clockwise rotation (default 0)
+  --flip              Mirror the vehicle horizontally
+
+Options:
+  --keep-background   Keep the original background outside the vehicle area
+  --provider <name>   gemini (default) or mock, which works offline
+  --concurrency <n>   Manifest jobs run at once (default 2)
+  -h, --help          Show this help
+
+With a manifest, the placement and blend flags apply to every job that
+doesn't set its own. The Gemini provider reads GEMINI_API_KEY or API_KEY.`;
+
+const OPTIONS = {
+    vehicle: { type: 'string' },
+    background: { type: 'string' },
+    out: { type: 'string' },
+    manifest: { type: 'string' },
+    x: { type: 'string' },
+    y: { type: 'string' },
+    scale: { type: 'string' },
+    rotation: { type: 'string' },
+    flip: { type: 'boolean' },
+    'keep-background': { type: 'boolean' },
+    provider: { type: 'string' },
+    concurrency: { type: 'string' },
+    help: { type: 'boolean', short: 'h' },
+} as const;
+
+const readNumber = (flag: string, value: string | undefined): number | undefined => {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isFinite(number)) {
+        throw new InvalidInputError(`--${flag} must be a number. Got "${value}".`);
+    }
+    return number;
+};
+
+const parseFlags = (args: string[]) => parseArgs({ args, options: OPTIONS }).values;
+
+const main = async (argv: string[]): Promise<number> => {
+    let values: ReturnType<typeof parseFlags>;
+    try {
+        values = parseFlags(argv);
+    } catch (e) {
+        console.error(`${e instanceof Error ? e.message : e}\n\n${USAGE}`);
+        return 2;
+    }
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    let jobs: SwapJob[];
+    let concurrency: number | undefined;
+    try {
+        const provider = values.provider ?? 'gemini';
+        if (provider === 'mock') {
+            setImageProvider(createMockProvider());
+        } else if (provider !== 'gemini') {
+            throw new InvalidInputError(`Unknown provider "${provider}". Expected "gemini" or "mock".`);
+        }
+
+        const placement: Partial<NormalizedPlacement> = {};
+        for (const key of ['x', 'y', 'scale', 'rotation'] as const) {
+            const value = readNumber(key, values[key]);
+            if (value !== undefined) placement[key] = value;
+        }
+        if (values.flip) placement.flipX = true;
+        const defaults: SwapDefaults = {
+            placement,
+            blendOptions: values['keep-background'] ? { preserveBackground: true } : {},
+        };
+        concurrency = readNumber('concurrency', values.concurrency);
+
+        if (values.manifest) {
+            jobs = await loadJobManifest(values.manifest, defaults);
+        } else if (values.vehicle && values.background && values.out) {
+            jobs = [{ vehicle: values.vehicle, background: values.background, out: values.out, ...defaults }];
+        } else {
+            throw new InvalidInputError("Pass --vehicle, --background and --out, or a --manifest.");
+        }
+    } catch (e) {
+        console.error(`${toServiceError(e).message}\n\n${USAGE}`);
+        return 2;
+    }
+
+    const results = await runSwapJobs(jobs, {
+        concurrency,
+        onRetry: ({ attempt, maxRetries, delayMs }) =>
+            console.error(`Request failed, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${maxRetries})...`),
+        onJobDone: ({ job, error }) => {
+            if (error) console.error(`Failed ${job.out}: ${error.message}`);
+            else console.log(`Wrote ${job.out}`);
+        },
+    });
+    const failed = results.filter(result => result.error).length;
+    if (jobs.length > 1) {
+        console.log(`${jobs.length - failed} of ${jobs.length} jobs succeeded.`);
+    }
+    return failed > 0 ? 1 : 0;
+};
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+});
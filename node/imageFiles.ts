@@ -0,0 +1,105 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { FileInfo } from '../types';
+import { InvalidInputError } from '../services/errors';
+import {
+    DEFAULT_UPLOAD_LIMITS,
+    MIME_TYPES,
+    readExifOrientation,
+    sniffFormat,
+    type UploadLimits,
+} from '../services/imageImport';
+import { createCanvas, dataUrlToBytes, loadImage } from '../utils/image';
+
+const JPEG_QUALITY = 0.92;
+
+const OUTPUT_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+};
+
+/**
+ * The canvas transform that turns an image stored with the given EXIF
+ * orientation upright. Orientations 5-8 swap width and height.
+ */
+const orientationTransform = (orientation: number, width: number, height: number): [number, number, number, number, number, number] => {
+    switch (orientation) {
+        case 2: return [-1, 0, 0, 1, width, 0];
+        case 3: return [-1, 0, 0, -1, width, height];
+        case 4: return [1, 0, 0, -1, 0, height];
+        case 5: return [0, 1, 1, 0, 0, 0];
+        case 6: return [0, 1, -1, 0, height, 0];
+        case 7: return [0, -1, -1, 0, height, width];
+        case 8: return [0, -1, 1, 0, 0, width];
+        default: return [1, 0, 0, 1, 0, 0];
+    }
+};
+
+/**
+ * Reads an image from disk into the same shape the browser upload produces,
+ * with the same limits and with EXIF rotation baked in. HEIC isn't decoded
+ * outside the browser.
+ */
+export const readImageFile = async (filePath: string, limits: UploadLimits = DEFAULT_UPLOAD_LIMITS): Promise<FileInfo> => {
+    const name = path.basename(filePath);
+    let bytes: Uint8Array;
+    try {
+        bytes = new Uint8Array(await readFile(filePath));
+    } catch {
+        throw new InvalidInputError(`"${filePath}" could not be read.`);
+    }
+    if (bytes.length > limits.maxBytes) {
+        throw new InvalidInputError(`"${name}" is larger than the ${Math.round(limits.maxBytes / (1024 * 1024))} MB limit.`);
+    }
+    const format = sniffFormat(bytes);
+    if (!format || format === 'heic') {
+        throw new InvalidInputError(`"${name}" isn't a supported image. Use JPEG, PNG or WebP.`);
+    }
+
+    const type = MIME_TYPES[format];
+    const base64 = `data:${type};base64,${Buffer.from(bytes).toString('base64')}`;
+    const image = await loadImage(base64);
+    const orientation = format === 'jpeg' ? readExifOrientation(bytes) : 1;
+    const swapsSides = orientation >= 5;
+    const width = swapsSides ? image.naturalHeight : image.naturalWidth;
+    const height = swapsSides ? image.naturalWidth : image.naturalHeight;
+    if (width * height > limits.maxPixels) {
+        throw new InvalidInputError(`"${name}" is ${(width * height / 1e6).toFixed(0)} megapixels. Images up to ${(limits.maxPixels / 1e6).toFixed(0)} megapixels are accepted.`);
+    }
+    if (Math.min(width, height) < limits.minDimension) {
+        throw new InvalidInputError(`"${name}" is only ${width}×${height} pixels. Both sides need to be at least ${limits.minDimension} pixels.`);
+    }
+    if (orientation === 1) {
+        return { name, type, size: bytes.length, base64, width, height };
+    }
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.setTransform(...orientationTransform(orientation, image.naturalWidth, image.naturalHeight));
+    ctx.drawImage(image, 0, 0);
+    const upright = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+    return { name, type: 'image/jpeg', size: dataUrlToBytes(upright).length, base64: upright, width, height };
+};
+
+/** Writes a data URL to disk, re-encoding it when the file extension asks for another format. */
+export const writeImageFile = async (filePath: string, dataUrl: string): Promise<void> => {
+    const type = OUTPUT_TYPES[path.extname(filePath).toLowerCase()];
+    if (!type) {
+        throw new InvalidInputError(`Can't write "${filePath}". Use a .png, .jpg or .webp file name.`);
+    }
+    let output = dataUrl;
+    if (!dataUrl.startsWith(`data:${type};`)) {
+        const image = await loadImage(dataUrl);
+        const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+        if (type === 'image/jpeg') {
+            // JPEG has no alpha, so transparent areas would otherwise turn black.
+            ctx.fillStyle = '#fff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        ctx.drawImage(image, 0, 0);
+        output = canvas.toDataURL(type, JPEG_QUALITY);
+    }
+    await mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+    await writeFile(filePath, dataUrlToBytes(output));
+};
@@ -0,0 +1,178 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { BlendOptions, NormalizedPlacement, VehicleLayer } from '../types';
+import { blendVehicleIntoScene, extractVehicle, type ProcessedCutout, type RequestOptions } from '../services/geminiService';
+import { composeScene, withImages } from '../services/compositor';
+import { planComposition, type Size } from '../services/composition';
+import { mergeIntoBackground } from '../services/merge';
+import { normalizeBlendOptions } from '../services/blendOptions';
+import { DEFAULT_SCENE_PLACEMENT } from '../services/backgroundLibrary';
+import { InvalidInputError, toServiceError, type ServiceError } from '../services/errors';
+import { runWithConcurrency } from '../utils/concurrency';
+import { isObject } from '../utils/guards';
+import { loadImage, setCanvasBackend } from '../utils/image';
+import { setImageProvider } from '../services/providers';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { nodeCanvasBackend } from './canvasBackend';
+import { readImageFile, writeImageFile } from './imageFiles';
+
+export { readImageFile, writeImageFile } from './imageFiles';
+export { setImageProvider } from '../services/providers';
+export { createMockProvider } from '../services/providers/mockProvider';
+export { createGeminiProvider } from '../services/providers/geminiProvider';
+
+// The services draw through the shared canvas helpers; point those at Node's canvas.
+setCanvasBackend(nodeCanvasBackend);
+// Unlike the app, which goes through the proxy server, Node code calls Gemini
+// directly with the key from its own environment.
+setImageProvider(createGeminiProvider({ apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY }));
+
+/** One composite: a vehicle photo placed on a background, blended and written to `out`. */
+export interface SwapJob {
+    vehicle: string;
+    background: string;
+    out: string;
+    /** Missing fields come from the library's default zone: centered, low in the frame, 35% wide. */
+    placement?: Partial<NormalizedPlacement>;
+    /** Missing fields use the app's defaults. */
+    blendOptions?: Partial<BlendOptions>;
+}
+
+export interface SwapJobResult {
+    job: SwapJob;
+    /** Set when the job failed; the other jobs still run. */
+    error?: ServiceError;
+}
+
+export interface SwapRunOptions extends RequestOptions {
+    /** Jobs processed at once. */
+    concurrency?: number;
+    onJobDone?: (result: SwapJobResult) => void;
+}
+
+/** Settings applied to every job in a manifest unless the job sets its own. */
+export interface SwapDefaults {
+    placement?: Partial<NormalizedPlacement>;
+    blendOptions?: Partial<BlendOptions>;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const VEHICLE_ID = 'vehicle';
+
+// Cutouts by resolved photo path, so a car used in many jobs is extracted once.
+type CutoutCache = Map<string, Promise<ProcessedCutout>>;
+
+const toPlacement = (placement: Partial<NormalizedPlacement> = {}): NormalizedPlacement => {
+    const resolved = { ...DEFAULT_SCENE_PLACEMENT, ...placement };
+    for (const key of ['x', 'y', 'scale', 'rotation'] as const) {
+        if (typeof resolved[key] !== 'number' || !Number.isFinite(resolved[key])) {
+            throw new InvalidInputError(`The placement's "${key}" must be a number.`);
+        }
+    }
+    if (resolved.scale <= 0) {
+        throw new InvalidInputError("The placement's scale must be greater than 0.");
+    }
+    return { ...resolved, flipX: !!resolved.flipX };
+};
+
+const extractOnce = (vehiclePath: string, cutouts: CutoutCache, options: RequestOptions): Promise<ProcessedCutout> => {
+    const key = path.resolve(vehiclePath);
+    let cutout = cutouts.get(key);
+    if (!cutout) {
+        cutout = readImageFile(vehiclePath).then(photo => extractVehicle(photo, options));
+        cutouts.set(key, cutout);
+    }
+    return cutout;
+};
+
+const runJob = async (job: SwapJob, cutouts: CutoutCache, options: RequestOptions): Promise<void> => {
+    const placement = toPlacement(job.placement);
+    const blendOptions = normalizeBlendOptions(job.blendOptions ?? {});
+    const [background, cutout] = await Promise.all([readImageFile(job.background), extractOnce(job.vehicle, cutouts, options)]);
+    const [backgroundImg, vehicleImg] = await Promise.all([loadImage(background.base64), loadImage(cutout.src)]);
+
+    const backgroundSize = { width: backgroundImg.naturalWidth, height: backgroundImg.naturalHeight };
+    const layer: VehicleLayer = { id: 'layer', vehicleId: VEHICLE_ID, placement, zIndex: 1 };
+    const vehicleSizes = new Map<string, Size>([[VEHICLE_ID, { width: vehicleImg.naturalWidth, height: vehicleImg.naturalHeight }]]);
+    const draws = withImages(planComposition(backgroundSize, [layer], vehicleSizes), new Map([[VEHICLE_ID, vehicleImg]]));
+
+    const composite = composeScene(backgroundImg, draws);
+    const blended = await blendVehicleIntoScene(composite, blendOptions, options);
+    const result = blendOptions.preserveBackground
+        ? await mergeIntoBackground(background.base64, blended, draws)
+        : blended;
+    await writeImageFile(job.out, result);
+};
+
+/** Runs one job with the same extraction, composition and blending as the app. */
+export const runSwapJob = (job: SwapJob, options: RequestOptions = {}): Promise<void> =>
+    runJob(job, new Map(), options);
+
+/**
+ * Runs jobs a few at a time. A failed job is reported in its result and
+ * doesn't stop the rest.
+ */
+export const runSwapJobs = async (jobs: SwapJob[], options: SwapRunOptions = {}): Promise<SwapJobResult[]> => {
+    const { concurrency = DEFAULT_CONCURRENCY, onJobDone, ...requestOptions } = options;
+    const cutouts: CutoutCache = new Map();
+    const results = new Map<SwapJob, SwapJobResult>();
+    await runWithConcurrency(jobs, concurrency, async job => {
+        let result: SwapJobResult;
+        try {
+            await runJob(job, cutouts, requestOptions);
+            result = { job };
+        } catch (e) {
+            result = { job, error: toServiceError(e) };
+        }
+        results.set(job, result);
+        onJobDone?.(result);
+    });
+    return jobs.map(job => results.get(job)!);
+};
+
+const parseJob = (raw: unknown, index: number, baseDir: string, defaults: SwapDefaults): SwapJob => {
+    const label = `Job ${index + 1}`;
+    if (!isObject(raw)) {
+        throw new InvalidInputError(`${label} must be an object.`);
+    }
+    const [vehicle, background, out] = (['vehicle', 'background', 'out'] as const).map(key => {
+        const value = raw[key];
+        if (typeof value !== 'string' || !value) {
+            throw new InvalidInputError(`${label} needs a "${key}" path.`);
+        }
+        return path.resolve(baseDir, value);
+    });
+    const { placement, blendOptions } = raw;
+    if (placement !== undefined && !isObject(placement)) {
+        throw new InvalidInputError(`${label}'s "placement" must be an object.`);
+    }
+    if (blendOptions !== undefined && !isObject(blendOptions)) {
+        throw new InvalidInputError(`${label}'s "blendOptions" must be an object.`);
+    }
+    // The fields themselves are checked when the job runs, by toPlacement and normalizeBlendOptions.
+    return {
+        vehicle,
+        background,
+        out,
+        placement: { ...defaults.placement, ...placement as Partial<NormalizedPlacement> },
+        blendOptions: { ...defaults.blendOptions, ...blendOptions as Partial<BlendOptions> },
+    };
+};
+
+/**
+ * Reads a JSON job manifest: `{ "jobs": [{ "vehicle", "background", "out",
+ * "placement"?, "blendOptions"? }] }`. Paths are relative to the manifest.
+ */
+export const loadJobManifest = async (manifestPath: string, defaults: SwapDefaults = {}): Promise<SwapJob[]> => {
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(await readFile(manifestPath, 'utf8'));
+    } catch (e) {
+        throw new InvalidInputError(`"${manifestPath}" couldn't be read as JSON: ${e instanceof Error ? e.message : e}`);
+    }
+    if (!isObject(manifest) || !Array.isArray(manifest.jobs)) {
+        throw new InvalidInputError(`"${manifestPath}" needs a "jobs" array.`);
+    }
+    const baseDir = path.dirname(path.resolve(manifestPath));
+    return manifest.jobs.map((job: unknown, index: number) => parseJob(job, index, baseDir, defaults));
+};
@@ -0,0 +1,104 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { createMockProvider, loadJobManifest, readImageFile, runSwapJob, runSwapJobs, setImageProvider } from './index';
+import { sniffFormat } from '../services/imageImport';
+
+let dir: string;
+
+const writeSolidImage = async (name: string, width: number, height: number, color: string) => {
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, width, height);
+    const file = path.join(dir, name);
+    await writeFile(file, name.endsWith('.jpg') ? canvas.toBuffer('image/jpeg') : canvas.toBuffer('image/png'));
+    return file;
+};
+
+beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'swap-test-'));
+    setImageProvider(createMockProvider());
+    await writeSolidImage('car.png', 400, 300, '#888');
+    await writeSolidImage('lot.jpg', 800, 450, '#2a6');
+});
+
+afterAll(async () => {
+    setImageProvider(null);
+    await rm(dir, { recursive: true, force: true });
+});
+
+describe('runSwapJob', () => {
+    it('composites the mock cutout onto the background at full size', async () => {
+        const out = path.join(dir, 'result.png');
+        await runSwapJob({
+            vehicle: path.join(dir, 'car.png'),
+            background: path.join(dir, 'lot.jpg'),
+            out,
+            placement: { x: 0.5, y: 0.7, scale: 0.25 },
+        });
+
+        const result = await loadImage(await readFile(out));
+        expect([result.width, result.height]).toEqual([800, 450]);
+        const canvas = createCanvas(800, 450);
+        const ctx = canvas.getContext('2d');
+        ctx.drawImage(result, 0, 0);
+        // The fixture sedan is red; the corners keep the green background.
+        const [r, g] = ctx.getImageData(400, 315, 1, 1).data;
+        expect(r).toBeGreaterThan(g);
+        const [, cornerG] = ctx.getImageData(5, 5, 1, 1).data;
+        expect(cornerG).toBeGreaterThan(150);
+    });
+
+    it('encodes the output to match the file extension', async () => {
+        const out = path.join(dir, 'nested', 'result.jpg');
+        await runSwapJob({ vehicle: path.join(dir, 'car.png'), background: path.join(dir, 'lot.jpg'), out });
+        expect(sniffFormat(new Uint8Array(await readFile(out)))).toBe('jpeg');
+    });
+
+    it('rejects images below the minimum size', async () => {
+        const tiny = await writeSolidImage('tiny.png', 100, 100, '#000');
+        await expect(readImageFile(tiny)).rejects.toThrow(/at least 256 pixels/);
+    });
+});
+
+describe('job manifests', () => {
+    it('resolves paths against the manifest and applies defaults', async () => {
+        const manifest = path.join(dir, 'jobs.json');
+        await writeFile(manifest, JSON.stringify({
+            jobs: [
+                { vehicle: 'car.png', background: 'lot.jpg', out: 'out/a.png' },
+                { vehicle: 'car.png', background: 'lot.jpg', out: 'out/b.png', placement: { x: 0.2 } },
+            ],
+        }));
+
+        const jobs = await loadJobManifest(manifest, { placement: { scale: 0.3 }, blendOptions: { preserveBackground: true } });
+        expect(jobs[0].vehicle).toBe(path.join(dir, 'car.png'));
+        expect(jobs[1].placement).toEqual({ scale: 0.3, x: 0.2 });
+        expect(jobs[1].blendOptions).toEqual({ preserveBackground: true });
+    });
+
+    it('reports invalid jobs by number', async () => {
+        const manifest = path.join(dir, 'broken.json');
+        await writeFile(manifest, JSON.stringify({ jobs: [{ vehicle: 'car.png', background: 'lot.jpg', out: 'x.png' }, { vehicle: 'car.png' }] }));
+        await expect(loadJobManifest(manifest)).rejects.toThrow('Job 2 needs a "background" path.');
+    });
+
+    it('keeps running when one job fails', async () => {
+        const results = await runSwapJobs([
+            { vehicle: path.join(dir, 'car.png'), background: path.join(dir, 'missing.jpg'), out: path.join(dir, 'fail.png') },
+            {
+                vehicle: path.join(dir, 'car.png'),
+                background: path.join(dir, 'lot.jpg'),
+                out: path.join(dir, 'kept.png'),
+                blendOptions: { preserveBackground: true },
+            },
+        ]);
+
+        expect(results[0].error?.message).toMatch(/could not be read/);
+        expect(results[1].error).toBeUndefined();
+        expect((await loadImage(await readFile(path.join(dir, 'kept.png')))).width).toBe(800);
+    });
+});
@@ -0,0 +1,25 @@
+import type { Writable } from 'node:stream';
+import type { ServiceErrorKind } from '../services/errors';
+
+/**
+ * One handled request. Entries never contain image data, prompts or
+ * credentials, only enough to see who used the proxy, how and with what result.
+ */
+export interface AuditEntry {
+    time: string;
+    client: string;
+    method: string;
+    path: string;
+    status: number;
+    durationMs: number;
+    /** Size of the request body as received, in bytes. */
+    requestBytes: number;
+    error?: ServiceErrorKind;
+}
+
+export type AuditLog = (entry: AuditEntry) => void;
+
+/** Writes each entry as one line of JSON. */
+export const createAuditLog = (stream: Writable): AuditLog => entry => {
+    stream.write(`${JSON.stringify(entry)}\n`);
+};
@@ -0,0 +1,33 @@
+import { createWriteStream, existsSync } from 'node:fs';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { createAuditLog } from './auditLog';
+import { createProxyServer, DEFAULT_MAX_BODY_BYTES, DEFAULT_RATE_LIMIT } from './proxyServer';
+
+// Same key file the app used before the proxy; values already in the environment win.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const readNumber = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const port = readNumber('PORT', 8787);
+const useMock = process.env.SERVER_PROVIDER === 'mock';
+const provider = useMock ? createMockProvider() : createGeminiProvider({ apiKey: process.env.GEMINI_API_KEY });
+if (!useMock && !process.env.GEMINI_API_KEY) {
+    console.warn('GEMINI_API_KEY is not set; model requests will fail until it is.');
+}
+
+const auditPath = process.env.AUDIT_LOG || 'audit.log';
+const server = createProxyServer({
+    provider,
+    maxBodyBytes: readNumber('MAX_REQUEST_MB', DEFAULT_MAX_BODY_BYTES / (1024 * 1024)) * 1024 * 1024,
+    rateLimit: { ...DEFAULT_RATE_LIMIT, limit: readNumber('RATE_LIMIT_PER_MINUTE', DEFAULT_RATE_LIMIT.limit) },
+    audit: createAuditLog(createWriteStream(auditPath, { flags: 'a' })),
+    trustProxy: process.env.TRUST_PROXY === '1',
+});
+
+server.listen(port, () => {
+    console.log(`Image proxy (${provider.name}) listening on http://localhost:${port}, audit log at ${auditPath}`);
+});
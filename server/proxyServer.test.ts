@@ -0,0 +1,169 @@
+import { connect, type AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import { VehicleDirection } from '../types';
+import { createProxyServer, type ProxyServerOptions } from './proxyServer';
+import { createRateLimiter } from './rateLimiter';
+import type { AuditEntry } from './auditLog';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { createProxyProvider } from '../services/providers/proxyProvider';
+import { MOCK_VEHICLE_CUTOUT } from '../services/providers/mockFixtures';
+import { DEFAULT_BLEND_OPTIONS } from '../services/blendOptions';
+import { CancelledError, ModelRefusedError, QuotaError, SafetyBlockedError } from '../services/errors';
+
+const png = createCanvas(32, 32).toBuffer('image/png');
+const PHOTO = { name: 'car.png', type: 'image/png', size: png.length, base64: `data:image/png;base64,${png.toString('base64')}` };
+
+let close: (() => Promise<void>) | undefined;
+
+afterEach(async () => {
+    await close?.();
+    close = undefined;
+});
+
+/** Starts a proxy on a free port, backed by the offline mock unless a stub is given. */
+const startServer = async (options: Partial<ProxyServerOptions> = {}) => {
+    const audit: AuditEntry[] = [];
+    const server = createProxyServer({ provider: createMockProvider(), audit: entry => audit.push(entry), ...options });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    close = () => new Promise(resolve => server.close(() => resolve()));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    return { baseUrl, audit, client: createProxyProvider({ baseUrl }) };
+};
+
+const post = (url: string, body: unknown) =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+describe('proxy server', () => {
+    it('runs each operation through the server-side provider', async () => {
+        const { client } = await startServer();
+        expect(await client.extractVehicle(PHOTO)).toBe(MOCK_VEHICLE_CUTOUT);
+        expect(await client.reorientVehicle(PHOTO, VehicleDirection.Left)).toBe(PHOTO.base64);
+        expect(await client.blendVehicleIntoScene(PHOTO, DEFAULT_BLEND_OPTIONS)).toBe(PHOTO.base64);
+    });
+
+    it('audits requests without recording image data', async () => {
+        const { client, audit } = await startServer();
+        await client.extractVehicle(PHOTO);
+
+        expect(audit).toHaveLength(1);
+        expect(audit[0]).toMatchObject({ method: 'POST', path: '/api/extract', status: 200, client: '127.0.0.1' });
+        expect(audit[0].requestBytes).toBeGreaterThan(PHOTO.base64.length);
+        expect(JSON.stringify(audit[0])).not.toContain(PHOTO.base64.slice(30, 60));
+    });
+
+    it('rejects images whose bytes don\'t match their type', async () => {
+        const { baseUrl, audit } = await startServer();
+        const fake = `data:image/png;base64,${Buffer.from('not really a png').toString('base64')}`;
+        const response = await post(`${baseUrl}/extract`, { image: { name: 'x.png', base64: fake } });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).error.kind).toBe('invalid-input');
+        expect(audit[0]).toMatchObject({ status: 400, error: 'invalid-input' });
+    });
+
+    it('rejects unknown directions', async () => {
+        const { baseUrl } = await startServer();
+        const response = await post(`${baseUrl}/reorient`, { image: PHOTO, direction: 'up' });
+        expect(response.status).toBe(400);
+    });
+
+    it('turns away bodies over the size limit', async () => {
+        const { baseUrl } = await startServer({ maxBodyBytes: 1024 });
+        const response = await post(`${baseUrl}/blend`, { image: PHOTO, padding: 'x'.repeat(4096) });
+
+        expect(response.status).toBe(413);
+        expect((await response.json()).error.message).toMatch(/larger than/);
+    });
+
+    it('stops reading an oversized upload once it has answered', async () => {
+        const { baseUrl } = await startServer({ maxBodyBytes: 1024 });
+        const { hostname, port } = new URL(baseUrl);
+        const socket = connect(Number(port), hostname);
+        let response = '';
+        socket.on('data', chunk => { response += chunk.toString(); });
+        // Announce a large body but only send the start of it.
+        socket.write(`POST /api/blend HTTP/1.1\r\nHost: ${hostname}\r\nContent-Type: application/json\r\nContent-Length: 1000000\r\n\r\n{"padding":"`);
+        socket.write('x'.repeat(2048));
+        await new Promise(resolve => socket.on('close', resolve));
+
+        expect(response).toMatch(/^HTTP\/1\.1 413/);
+    });
+
+    it('answers 504 and stops a model call that runs too long', async () => {
+        let signal: AbortSignal | undefined;
+        const stub = createMockProvider();
+        stub.extractVehicle = (_, options) => new Promise((_, reject) => {
+            signal = options?.signal;
+            signal?.addEventListener('abort', () => reject(new CancelledError()));
+        });
+        // A backend that ignores the signal entirely.
+        stub.blendVehicleIntoScene = () => new Promise(() => {});
+        const { baseUrl, audit } = await startServer({ provider: stub, requestTimeoutMs: 50 });
+
+        const response = await post(`${baseUrl}/extract`, { image: PHOTO });
+        expect(response.status).toBe(504);
+        expect((await response.json()).error.kind).toBe('timeout');
+        expect(signal?.aborted).toBe(true);
+        expect(audit[0]).toMatchObject({ status: 504, error: 'timeout' });
+
+        expect((await post(`${baseUrl}/blend`, { image: PHOTO })).status).toBe(504);
+    });
+
+    it('rate-limits each client and says when to retry', async () => {
+        const { baseUrl, client } = await startServer({ rateLimit: { limit: 2, windowMs: 60_000 } });
+        await client.extractVehicle(PHOTO);
+        await client.extractVehicle(PHOTO);
+
+        const response = await post(`${baseUrl}/extract`, { image: PHOTO });
+        expect(response.status).toBe(429);
+        expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+
+        const error = await client.extractVehicle(PHOTO).catch(e => e);
+        expect(error).toBeInstanceOf(QuotaError);
+        expect(error.retryAfterMs).toBeGreaterThan(0);
+    });
+
+    it('passes model failures back in the error taxonomy', async () => {
+        const stub = createMockProvider();
+        stub.extractVehicle = async () => { throw new SafetyBlockedError("The model declined to produce an image.", 'PROHIBITED_CONTENT'); };
+        stub.blendVehicleIntoScene = async () => { throw new ModelRefusedError("The model answered without an image.", 'STOP', 'I can only describe this scene.'); };
+        const { client } = await startServer({ provider: stub });
+
+        const blocked = await client.extractVehicle(PHOTO).catch(e => e);
+        expect(blocked).toBeInstanceOf(SafetyBlockedError);
+        expect(blocked.message).toBe("The model declined to produce an image.");
+        expect(blocked.finishReason).toBe('PROHIBITED_CONTENT');
+
+        const refused = await client.blendVehicleIntoScene(PHOTO, DEFAULT_BLEND_OPTIONS).catch(e => e);
+        expect(refused).toBeInstanceOf(ModelRefusedError);
+        expect(refused).toMatchObject({ finishReason: 'STOP', modelText: 'I can only describe this scene.' });
+    });
+
+    it('hides the details of unexpected failures', async () => {
+        const stub = createMockProvider();
+        stub.blendVehicleIntoScene = async () => { throw new Error('connect ECONNREFUSED 10.0.0.5:443'); };
+        const { baseUrl, audit } = await startServer({ provider: stub });
+
+        const response = await post(`${baseUrl}/blend`, { image: PHOTO });
+        expect(response.status).toBe(500);
+        expect(JSON.stringify(await response.json())).not.toContain('10.0.0.5');
+        expect(audit[0].error).toBe('unknown');
+    });
+
+    it('answers unknown paths with 404', async () => {
+        const { baseUrl } = await startServer();
+        expect((await post(`${baseUrl}/generate`, {})).status).toBe(404);
+    });
+});
+
+describe('createRateLimiter', () => {
+    it('frees a slot once the oldest request leaves the window', () => {
+        const limiter = createRateLimiter({ limit: 2, windowMs: 1000 });
+        expect(limiter.take('a', 0)).toBe(0);
+        expect(limiter.take('a', 400)).toBe(0);
+        expect(limiter.take('a', 600)).toBe(400);
+        expect(limiter.take('b', 600)).toBe(0);
+        expect(limiter.take('a', 1000)).toBe(0);
+    });
+});
@@ -0,0 +1,251 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { VehicleDirection, type FileInfo } from '../types';
+import type { ImageModelProvider, ProviderCallOptions } from '../services/providers/types';
+import { normalizeBlendOptions } from '../services/blendOptions';
+import { MIME_TYPES, sniffFormat, type ImageFormat } from '../services/imageImport';
+import {
+    InvalidInputError,
+    QuotaError,
+    ServiceError,
+    TimeoutError,
+    toErrorPayload,
+    toServiceError,
+    type ServiceErrorKind,
+} from '../services/errors';
+import { createRateLimiter, type RateLimitOptions } from './rateLimiter';
+import type { AuditLog } from './auditLog';
+import { isObject } from '../utils/guards';
+
+export interface ProxyServerOptions {
+    /** The model backend. The server owns its credentials; clients never see them. */
+    provider: ImageModelProvider;
+    /** Largest accepted request body. Images travel base64-encoded, about 4/3 of their size. */
+    maxBodyBytes?: number;
+    rateLimit?: RateLimitOptions;
+    audit?: AuditLog;
+    /** Identify clients by `X-Forwarded-For`. Only enable behind a reverse proxy that sets it. */
+    trustProxy?: boolean;
+    /** How long a model call may run before the server answers 504 and stops it. */
+    requestTimeoutMs?: number;
+}
+
+export const DEFAULT_MAX_BODY_BYTES = 20 * 1024 * 1024;
+export const DEFAULT_RATE_LIMIT: RateLimitOptions = { limit: 30, windowMs: 60_000 };
+// Just under the app's own per-attempt timeout, so it gets an answer rather than giving up.
+export const DEFAULT_REQUEST_TIMEOUT_MS = 85_000;
+
+const ACCEPTED_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp'];
+const DATA_URL_PATTERN = /^data:([\w/+.-]+);base64,([A-Za-z0-9+/]+={0,2})$/;
+
+const STATUS_BY_KIND: Record<ServiceErrorKind, number> = {
+    'invalid-input': 400,
+    'model-refused': 422,
+    'safety-blocked': 422,
+    'no-image': 502,
+    'bad-output': 502,
+    'quota': 429,
+    'network': 502,
+    'timeout': 504,
+    'configuration': 500,
+    'compositing': 500,
+    'cancelled': 499,
+    'unknown': 500,
+};
+
+/** A request the server turns away before any model call, with its own status. */
+class RequestError extends InvalidInputError {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'RequestError';
+        this.status = status;
+    }
+}
+
+type Operation = (provider: ImageModelProvider, body: Record<string, unknown>, options: ProviderCallOptions) => Promise<string>;
+
+const readImage = (body: Record<string, unknown>): FileInfo => {
+    const image = isObject(body.image) ? body.image : {};
+    const base64 = typeof image.base64 === 'string' ? image.base64 : '';
+    const match = base64.match(DATA_URL_PATTERN);
+    if (!match) {
+        throw new InvalidInputError("The request needs an \"image\" with a base64 data URL.");
+    }
+    // Trust the bytes, not the declared type.
+    const format = sniffFormat(Buffer.from(match[2].slice(0, 64), 'base64'));
+    if (!format || !ACCEPTED_FORMATS.includes(format) || MIME_TYPES[format] !== match[1]) {
+        throw new InvalidInputError("The image must be a JPEG, PNG or WebP matching its declared type.");
+    }
+    return {
+        name: typeof image.name === 'string' ? image.name : 'image',
+        type: match[1],
+        size: Math.round(match[2].length * 0.75),
+        base64,
+    };
+};
+
+const isDirection = (value: unknown): value is VehicleDirection =>
+    Object.values(VehicleDirection).includes(value as VehicleDirection);
+
+const readDirection = (body: Record<string, unknown>): VehicleDirection => {
+    if (!isDirection(body.direction)) {
+        throw new InvalidInputError(`Unknown direction "${body.direction}".`);
+    }
+    return body.direction;
+};
+
+const OPERATIONS: Record<string, Operation> = {
+    '/api/extract': (provider, body, options) =>
+        provider.extractVehicle(readImage(body), options),
+    '/api/reorient': (provider, body, options) =>
+        provider.reorientVehicle(readImage(body), readDirection(body), options),
+    '/api/blend': (provider, body, options) =>
+        provider.blendVehicleIntoScene(readImage(body), normalizeBlendOptions(body.blendOptions), options),
+};
+
+const clientAddress = (req: IncomingMessage, trustProxy: boolean): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string' && forwarded) {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+};
+
+const tooLarge = (maxBytes: number) =>
+    new RequestError(413, `The request is larger than the ${Math.round(maxBytes / (1024 * 1024))} MB limit.`);
+
+/** Reads the body, giving up as soon as it passes `maxBytes` instead of buffering the rest. */
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<Buffer> => new Promise((resolve, reject) => {
+    if (Number(req.headers['content-length']) > maxBytes) {
+        reject(tooLarge(maxBytes));
+        return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+            req.off('data', onData);
+            reject(tooLarge(maxBytes));
+        } else {
+            chunks.push(chunk);
+        }
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const readJson = (body: Buffer): Record<string, unknown> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(body.toString('utf8'));
+    } catch {
+        throw new InvalidInputError("The request body isn't valid JSON.");
+    }
+    if (!isObject(parsed)) {
+        throw new InvalidInputError("The request body must be a JSON object.");
+    }
+    return parsed;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: object) => {
+    res.statusCode = status;
+    if (res.destroyed) return;
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(JSON.stringify(body));
+};
+
+/**
+ * The app's backend for model calls: `POST /api/extract`, `/api/reorient`
+ * and `/api/blend` take `{ image: { name, base64 } }` plus `direction` or
+ * `blendOptions`, and answer `{ image }` with a data URL or `{ error }` in
+ * the service error taxonomy. Bodies are size-limited, each client is
+ * rate-limited and every request is written to the audit log.
+ */
+export const createProxyServer = ({
+    provider,
+    maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+    rateLimit = DEFAULT_RATE_LIMIT,
+    audit,
+    trustProxy = false,
+    requestTimeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+}: ProxyServerOptions): Server => {
+    const limiter = createRateLimiter(rateLimit);
+
+    const handle = async (req: IncomingMessage, res: ServerResponse) => {
+        const started = Date.now();
+        const client = clientAddress(req, trustProxy);
+        const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+        let requestBytes = 0;
+        let errorKind: ServiceErrorKind | undefined;
+        req.on('data', (chunk: Buffer) => { requestBytes += chunk.length; });
+
+        try {
+            const operation = OPERATIONS[path];
+            if (!operation) {
+                throw new RequestError(404, `There is no endpoint at ${path}.`);
+            }
+            if (req.method !== 'POST') {
+                res.setHeader('Allow', 'POST');
+                throw new RequestError(405, `${path} only accepts POST requests.`);
+            }
+            const waitMs = limiter.take(client);
+            if (waitMs > 0) {
+                throw new QuotaError(`Too many requests. Try again in ${Math.ceil(waitMs / 1000)}s.`, waitMs);
+            }
+            const body = readJson(await readBody(req, maxBodyBytes));
+
+            // Stop the model call when the app gives up on the request or it runs too long.
+            const controller = new AbortController();
+            res.on('close', () => {
+                if (!res.writableFinished) controller.abort();
+            });
+            const timeout = AbortSignal.timeout(requestTimeoutMs);
+            // Not every backend honours the signal, so race the timeout as well.
+            const timedOut = new Promise<never>((_, reject) => {
+                timeout.addEventListener('abort', () => reject(new TimeoutError(requestTimeoutMs)), { once: true });
+            });
+            const signal = AbortSignal.any([controller.signal, timeout]);
+            const image = await Promise.race([operation(provider, body, { signal }), timedOut]).catch(e => {
+                // A backend that does honour it rejects with its own cancellation error.
+                throw timeout.aborted ? new TimeoutError(requestTimeoutMs) : e;
+            });
+            sendJson(res, 200, { image });
+        } catch (e) {
+            const error = toServiceError(e);
+            errorKind = error.kind;
+            if (error instanceof QuotaError && error.retryAfterMs !== undefined) {
+                res.setHeader('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+            }
+            if (error instanceof RequestError && error.status === 413) {
+                // The rest of the body is never read, so don't reuse the connection
+                // or keep accepting the upload once the answer is out.
+                res.setHeader('Connection', 'close');
+                res.once('finish', () => req.destroy());
+            }
+            // Unexpected failures may carry internals; the audit log still records their kind.
+            const payload = error.kind === 'unknown'
+                ? toErrorPayload(new ServiceError('unknown', "The image server ran into an unexpected problem."))
+                : toErrorPayload(error);
+            sendJson(res, error instanceof RequestError ? error.status : STATUS_BY_KIND[error.kind], { error: payload });
+        } finally {
+            audit?.({
+                time: new Date(started).toISOString(),
+                client,
+                method: req.method ?? '',
+                path,
+                status: res.statusCode,
+                durationMs: Date.now() - started,
+                requestBytes,
+                ...(errorKind ? { error: errorKind } : {}),
+            });
+        }
+    };
+
+    return createServer((req, res) => {
+        void handle(req, res);
+    });
+};
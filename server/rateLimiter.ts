@@ -0,0 +1,44 @@
+export interface RateLimitOptions {
+    /** Requests each client may make per window. */
+    limit: number;
+    windowMs: number;
+}
+
+export interface RateLimiter {
+    /**
+     * Counts a request from `client`. Returns 0 when it's allowed, otherwise
+     * how long the client has to wait before its next request is.
+     */
+    take: (client: string, now?: number) => number;
+}
+
+/**
+ * A sliding-window limiter keyed by client. Only accepted requests count,
+ * so a client that keeps retrying while limited isn't locked out longer.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions): RateLimiter => {
+    const hits = new Map<string, number[]>();
+    let lastSweep = 0;
+
+    // Forget clients that have been quiet for a whole window.
+    const sweep = (now: number) => {
+        for (const [client, times] of hits) {
+            if (now - times[times.length - 1] >= windowMs) hits.delete(client);
+        }
+        lastSweep = now;
+    };
+
+    return {
+        take: (client, now = Date.now()) => {
+            if (now - lastSweep >= windowMs) sweep(now);
+            const recent = (hits.get(client) ?? []).filter(time => now - time < windowMs);
+            if (recent.length >= limit) {
+                hits.set(client, recent);
+                return recent[0] + windowMs - now;
+            }
+            recent.push(now);
+            hits.set(client, recent);
+            return 0;
+        },
+    };
+};
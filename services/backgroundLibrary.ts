@@ -0,0 +1,70 @@
+import type { BlendOptions, FileInfo, NormalizedPlacement } from '../types';
+import type { SceneCalibration } from './perspective';
+import { normalizeBlendOptions } from './blendOptions';
+import { createCanvas, loadImage } from '../utils/image';
+import { idbDelete, idbGetAll, idbPut, STORES } from '../utils/indexedDb';
+
+/**
+ * A background kept in the local library, with the setup that works for
+ * it: where a car goes and at what size, and how it should be blended.
+ */
+export interface SavedScene {
+    id: string;
+    name: string;
+    tags: string[];
+    file: FileInfo;
+    /** A small JPEG for the library grid, so browsing doesn't decode full photos. */
+    thumbnail: string;
+    /** The placement zone: where a newly added vehicle lands, and how large it is. */
+    placement: NormalizedPlacement;
+    blendOptions: BlendOptions;
+    calibration: SceneCalibration | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/** Same default zone as a new batch background: low center, about a third of the width. */
+export const DEFAULT_SCENE_PLACEMENT: NormalizedPlacement = { x: 0.5, y: 0.7, scale: 0.35, rotation: 0, flipX: false };
+
+const THUMBNAIL_WIDTH = 320;
+
+export const createThumbnail = async (file: FileInfo): Promise<string> => {
+    const image = await loadImage(file.base64);
+    const width = Math.min(THUMBNAIL_WIDTH, image.naturalWidth);
+    const height = Math.max(1, Math.round((width * image.naturalHeight) / image.naturalWidth));
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, width, height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+/** Splits free text into lowercase tags; commas, spaces and leading '#' are all accepted. */
+export const parseTags = (text: string): string[] =>
+    [...new Set(text.split(/[\s,]+/).map(tag => tag.replace(/^#/, '').toLowerCase()).filter(Boolean))];
+
+/** Newest first. Older records pass through the blend option defaults in case the shape grew. */
+export const listScenes = async (): Promise<SavedScene[]> => {
+    const scenes = await idbGetAll<SavedScene>(STORES.backgrounds);
+    return scenes
+        .map(scene => ({ ...scene, blendOptions: normalizeBlendOptions(scene.blendOptions) }))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const saveScene = (scene: SavedScene): Promise<void> => idbPut(STORES.backgrounds, scene.id, scene);
+
+export const deleteScene = (sceneId: string): Promise<void> => idbDelete(STORES.backgrounds, sceneId);
+
+/**
+ * Every word of the query has to match the start of a word in the name or
+ * one of the tags. `#word` only matches tags.
+ */
+export const searchScenes = (scenes: SavedScene[], query: string): SavedScene[] => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return scenes;
+    return scenes.filter(scene => {
+        const nameWords = scene.name.toLowerCase().split(/[^a-z0-9]+/);
+        return terms.every(term => term.startsWith('#')
+            ? scene.tags.includes(term.slice(1))
+            : scene.tags.some(tag => tag.startsWith(term)) || nameWords.some(word => word.startsWith(term)));
+    });
+};
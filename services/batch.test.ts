@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { BatchBackground, BatchItem, ExtractedVehicle } from '../types';
+import { buildBatchArchive, type BatchManifestEntry } from './batch';
+import { DEFAULT_BLEND_OPTIONS } from './blendOptions';
+
+const vehicle: ExtractedVehicle = { id: 'vehicle-1', name: 'red car.png', src: 'data:image/png;base64,AAAA', width: 400, height: 200 };
+
+const background: BatchBackground = {
+    id: 'background-1',
+    file: { name: 'beach.jpg', type: 'image/jpeg', size: 4, base64: 'data:image/jpeg;base64,AAAA' },
+    placement: { x: 0.5, y: 0.7, scale: 0.35, rotation: 0, flipX: false },
+};
+
+const item = (id: string, changes: Partial<BatchItem>): BatchItem => ({
+    id,
+    vehicleId: vehicle.id,
+    backgroundId: background.id,
+    status: 'done',
+    result: 'data:image/jpeg;base64,AQID',
+    placement: { x: 0.2, y: 0.8, scale: 0.5, rotation: 10, flipX: true },
+    blendOptions: DEFAULT_BLEND_OPTIONS,
+    ...changes,
+});
+
+const readManifest = (entries: { name: string; data: Uint8Array }[]): BatchManifestEntry[] =>
+    JSON.parse(new TextDecoder().decode(entries.find(entry => entry.name === 'manifest.json')!.data));
+
+describe('buildBatchArchive', () => {
+    it('names each finished image after its vehicle and scene', () => {
+        const entries = buildBatchArchive([item('batch-1', {})], [vehicle], [background]);
+        expect(entries.map(entry => entry.name)).toEqual(['001-red_car-beach.jpg', 'manifest.json']);
+        expect(Array.from(entries[0].data)).toEqual([1, 2, 3]);
+    });
+
+    it('records the placement and options each item ran with', () => {
+        const ran = item('batch-1', {});
+        // The background's placement was moved after the run.
+        const moved = { ...background, placement: { ...background.placement, x: 0.9 } };
+        const [entry] = readManifest(buildBatchArchive([ran], [vehicle], [moved]));
+        expect(entry).toEqual({
+            file: '001-red_car-beach.jpg',
+            vehicle: 'red car.png',
+            background: 'beach.jpg',
+            placement: ran.placement,
+            blendOptions: DEFAULT_BLEND_OPTIONS,
+        });
+    });
+
+    it('leaves out items without a result', () => {
+        const entries = buildBatchArchive([
+            item('batch-1', { status: 'failed', result: undefined, error: 'Cancelled.' }),
+            item('batch-2', {}),
+            item('batch-3', { status: 'running', result: undefined }),
+        ], [vehicle], [background]);
+        expect(readManifest(entries).map(entry => entry.file)).toEqual(['001-red_car-beach.jpg']);
+    });
+});
@@ -0,0 +1,44 @@
+import type { BatchBackground, BatchItem, ExtractedVehicle } from '../types';
+import type { ZipEntry } from '../utils/zip';
+import { baseName, dataUrlToBytes, extensionForDataUrl } from '../utils/image';
+
+/** One line of a batch download's `manifest.json`. */
+export interface BatchManifestEntry {
+    file: string;
+    vehicle?: string;
+    background?: string;
+    placement?: BatchItem['placement'];
+    blendOptions?: BatchItem['blendOptions'];
+}
+
+/**
+ * The finished results of a batch as ZIP entries, plus a manifest recording
+ * what produced each image so it can be reproduced. Placement and blend
+ * options come from the item itself, i.e. as they were when it ran.
+ */
+export const buildBatchArchive = (
+    items: BatchItem[],
+    vehicles: ExtractedVehicle[],
+    backgrounds: BatchBackground[],
+): ZipEntry[] => {
+    const done = items
+        .filter(item => item.status === 'done' && item.result)
+        .map((item, index) => {
+            const vehicle = vehicles.find(v => v.id === item.vehicleId);
+            const background = backgrounds.find(bg => bg.id === item.backgroundId);
+            const name = `${String(index + 1).padStart(3, '0')}-${baseName(vehicle?.name ?? 'vehicle')}-${baseName(background?.file.name ?? 'scene')}`;
+            return { item, vehicle, background, fileName: `${name}.${extensionForDataUrl(item.result!)}` };
+        });
+
+    const manifest: BatchManifestEntry[] = done.map(({ item, vehicle, background, fileName }) => ({
+        file: fileName,
+        vehicle: vehicle?.name,
+        background: background?.file.name,
+        placement: item.placement,
+        blendOptions: item.blendOptions,
+    }));
+    return [
+        ...done.map(({ item, fileName }) => ({ name: fileName, data: dataUrlToBytes(item.result!) })),
+        { name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+    ];
+};
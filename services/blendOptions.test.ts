@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { changesWholeScene, DEFAULT_BLEND_OPTIONS, normalizeBlendOptions, withoutClashingModifiers } from './blendOptions';
+
+describe('normalizeBlendOptions', () => {
+    it('fills malformed fields from the defaults', () => {
+        const options = normalizeBlendOptions({ shadow: { softness: 'soft', direction: 'up' }, reflections: { strength: 3 }, modifiers: ['dusk', 'snow'] });
+        expect(options.shadow).toEqual(DEFAULT_BLEND_OPTIONS.shadow);
+        expect(options.reflections.strength).toBe(1);
+        expect(options.modifiers).toEqual(['dusk']);
+    });
+
+    it('drops scene-wide changes when the original background is kept', () => {
+        const options = normalizeBlendOptions({ preserveBackground: true, modifiers: ['night', 'headlights-on'] });
+        expect(options.modifiers).toEqual(['headlights-on']);
+    });
+});
+
+describe('withoutClashingModifiers', () => {
+    it('leaves the modifiers alone when the model renders the whole scene', () => {
+        const options = { ...DEFAULT_BLEND_OPTIONS, modifiers: ['wet-road' as const, 'dusk' as const] };
+        expect(withoutClashingModifiers(options)).toBe(options);
+    });
+});
+
+describe('changesWholeScene', () => {
+    it('is true for weather and time-of-day changes only', () => {
+        expect(changesWholeScene({ ...DEFAULT_BLEND_OPTIONS, modifiers: ['headlights-on', 'night'] })).toBe(true);
+        expect(changesWholeScene({ ...DEFAULT_BLEND_OPTIONS, modifiers: ['headlights-on'] })).toBe(false);
+        expect(changesWholeScene(DEFAULT_BLEND_OPTIONS)).toBe(false);
+    });
+});
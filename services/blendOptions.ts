@@ -0,0 +1,72 @@
+import type { BlendOptions, SceneModifier, ShadowDirection } from '../types';
+import { isObject } from '../utils/guards';
+
+/** Matches the original fixed blend prompt: soft shadows, reflections and lighting match. */
+export const DEFAULT_BLEND_OPTIONS: BlendOptions = {
+    shadow: { enabled: true, softness: 0.6, direction: 'auto' },
+    reflections: { enabled: true, strength: 0.4 },
+    colorMatch: { enabled: true, strength: 0.6 },
+    modifiers: [],
+    note: '',
+    preserveBackground: false,
+};
+
+export const SHADOW_DIRECTIONS: ShadowDirection[] = ['auto', 'left', 'right', 'toward-camera', 'away-from-camera'];
+export const SCENE_MODIFIERS: SceneModifier[] = ['wet-road', 'dusk', 'night', 'overcast', 'headlights-on'];
+/**
+ * Modifiers that relight or re-weather the whole scene. Keeping the original
+ * background would leave them visible only around the vehicles, so the two
+ * don't combine.
+ */
+export const SCENE_WIDE_MODIFIERS: SceneModifier[] = ['wet-road', 'dusk', 'night', 'overcast'];
+
+/** Whether the options ask the model to change the whole scene, so background drift is expected. */
+export const changesWholeScene = (options: BlendOptions) =>
+    options.modifiers.some(modifier => SCENE_WIDE_MODIFIERS.includes(modifier));
+
+/** Drops the modifiers that clash with keeping the original background. */
+export const withoutClashingModifiers = (options: BlendOptions): BlendOptions => options.preserveBackground
+    ? { ...options, modifiers: options.modifiers.filter(modifier => !SCENE_WIDE_MODIFIERS.includes(modifier)) }
+    : options;
+
+// A missing or malformed section reads as empty, so each field falls back on its own.
+const section = (value: unknown): Record<string, unknown> => isObject(value) ? value : {};
+
+const flag = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+
+const strength = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : fallback;
+
+const isShadowDirection = (value: unknown): value is ShadowDirection => SHADOW_DIRECTIONS.includes(value as ShadowDirection);
+
+const isSceneModifier = (value: unknown): value is SceneModifier => SCENE_MODIFIERS.includes(value as SceneModifier);
+
+/**
+ * Reads options from a project file or other untrusted source, filling
+ * anything missing or malformed from the defaults.
+ */
+export const normalizeBlendOptions = (raw: unknown): BlendOptions => {
+    if (!isObject(raw)) return DEFAULT_BLEND_OPTIONS;
+    const { shadow, reflections, colorMatch } = DEFAULT_BLEND_OPTIONS;
+    const rawShadow = section(raw.shadow);
+    const rawReflections = section(raw.reflections);
+    const rawColorMatch = section(raw.colorMatch);
+    return withoutClashingModifiers({
+        shadow: {
+            enabled: flag(rawShadow.enabled, shadow.enabled),
+            softness: strength(rawShadow.softness, shadow.softness),
+            direction: isShadowDirection(rawShadow.direction) ? rawShadow.direction : shadow.direction,
+        },
+        reflections: {
+            enabled: flag(rawReflections.enabled, reflections.enabled),
+            strength: strength(rawReflections.strength, reflections.strength),
+        },
+        colorMatch: {
+            enabled: flag(rawColorMatch.enabled, colorMatch.enabled),
+            strength: strength(rawColorMatch.strength, colorMatch.strength),
+        },
+        modifiers: Array.isArray(raw.modifiers) ? raw.modifiers.filter(isSceneModifier) : [],
+        note: typeof raw.note === 'string' ? raw.note : '',
+        preserveBackground: raw.preserveBackground === true,
+    });
+};
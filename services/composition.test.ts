@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import type { NormalizedPlacement, VehicleLayer } from '../types';
+import {
+    createDropPlacement,
+    DEFAULT_VEHICLE_SCALE,
+    getContentRect,
+    getOutputCrop,
+    normalizedToScreen,
+    planComposition,
+    reframePlacement,
+    resolvePlacement,
+    screenToImage,
+    screenToNormalized,
+    type RenderViewport,
+    type Size,
+} from './composition';
+
+const placement = (changes: Partial<NormalizedPlacement> = {}): NormalizedPlacement => ({
+    x: 0.5,
+    y: 0.5,
+    scale: 0.25,
+    rotation: 0,
+    flipX: false,
+    ...changes,
+});
+
+const layer = (id: string, vehicleId: string, zIndex: number, changes: Partial<NormalizedPlacement> = {}): VehicleLayer => ({
+    id,
+    vehicleId,
+    zIndex,
+    placement: placement(changes),
+});
+
+// A 1600x900 photo shown in an 800x600 element: bars above and below.
+const wideInSquarish: RenderViewport = { width: 800, height: 600, naturalWidth: 1600, naturalHeight: 900 };
+// A 1000x2000 portrait shown in an 800x600 element: bars left and right.
+const tallInWide: RenderViewport = { width: 800, height: 600, naturalWidth: 1000, naturalHeight: 2000 };
+// Same aspect ratio as the element: no bars.
+const exactFit: RenderViewport = { width: 400, height: 300, naturalWidth: 4000, naturalHeight: 3000 };
+
+describe('getContentRect', () => {
+    it('letterboxes a wider image top and bottom', () => {
+        expect(getContentRect(wideInSquarish)).toEqual({ x: 0, y: 75, width: 800, height: 450 });
+    });
+
+    it('pillarboxes a taller image left and right', () => {
+        expect(getContentRect(tallInWide)).toEqual({ x: 250, y: 0, width: 300, height: 600 });
+    });
+
+    it('fills the element when the aspect ratios match', () => {
+        expect(getContentRect(exactFit)).toEqual({ x: 0, y: 0, width: 400, height: 300 });
+    });
+});
+
+describe('screen and image mapping', () => {
+    it('maps the content corners to 0 and 1', () => {
+        expect(screenToNormalized({ x: 0, y: 75 }, wideInSquarish)).toEqual({ x: 0, y: 0 });
+        expect(screenToNormalized({ x: 800, y: 525 }, wideInSquarish)).toEqual({ x: 1, y: 1 });
+        expect(screenToNormalized({ x: 250, y: 0 }, tallInWide)).toEqual({ x: 0, y: 0 });
+        expect(screenToNormalized({ x: 550, y: 600 }, tallInWide)).toEqual({ x: 1, y: 1 });
+    });
+
+    it('places points in the letterbox bars outside 0–1', () => {
+        expect(screenToNormalized({ x: 400, y: 10 }, wideInSquarish).y).toBeLessThan(0);
+        expect(screenToNormalized({ x: 700, y: 300 }, tallInWide).x).toBeGreaterThan(1);
+    });
+
+    it('round-trips between screen and normalized coordinates', () => {
+        for (const viewport of [wideInSquarish, tallInWide, exactFit]) {
+            const point = { x: 0.3, y: 0.8 };
+            const back = screenToNormalized(normalizedToScreen(point, viewport), viewport);
+            expect(back.x).toBeCloseTo(point.x);
+            expect(back.y).toBeCloseTo(point.y);
+        }
+    });
+
+    it('maps screen points to the natural image pixels', () => {
+        expect(screenToImage({ x: 400, y: 300 }, wideInSquarish)).toEqual({ x: 800, y: 450 });
+        expect(screenToImage({ x: 400, y: 300 }, tallInWide)).toEqual({ x: 500, y: 1000 });
+        expect(screenToImage({ x: 100, y: 30 }, exactFit)).toEqual({ x: 1000, y: 300 });
+    });
+});
+
+describe('createDropPlacement', () => {
+    it('drops at the pointer with the default size', () => {
+        expect(createDropPlacement({ x: 200, y: 300 }, wideInSquarish)).toEqual({
+            x: 0.25,
+            y: 0.5,
+            scale: DEFAULT_VEHICLE_SCALE,
+            rotation: 0,
+            flipX: false,
+        });
+    });
+
+    it('moves drops on a letterbox bar onto the nearest image edge', () => {
+        expect(createDropPlacement({ x: 400, y: 20 }, wideInSquarish)).toMatchObject({ x: 0.5, y: 0 });
+        expect(createDropPlacement({ x: 780, y: 300 }, tallInWide)).toMatchObject({ x: 1, y: 0.5 });
+    });
+});
+
+describe('resolvePlacement', () => {
+    const background: Size = { width: 2000, height: 1000 };
+
+    it('sizes the vehicle from the background width and its own aspect ratio', () => {
+        expect(resolvePlacement(placement({ scale: 0.5 }), background, { width: 400, height: 200 })).toEqual({
+            centerX: 1000,
+            centerY: 500,
+            width: 1000,
+            height: 500,
+            rotation: 0,
+            flipX: false,
+        });
+        // A portrait background with a tall vehicle image.
+        const draw = resolvePlacement(placement({ scale: 0.1 }), { width: 900, height: 1600 }, { width: 100, height: 300 });
+        expect(draw.width).toBeCloseTo(90);
+        expect(draw.height).toBeCloseTo(270);
+    });
+
+    it('puts vehicles placed on the edges centered on the edge', () => {
+        const vehicle = { width: 400, height: 200 };
+        expect(resolvePlacement(placement({ x: 0, y: 0 }), background, vehicle)).toMatchObject({ centerX: 0, centerY: 0 });
+        expect(resolvePlacement(placement({ x: 1, y: 1 }), background, vehicle)).toMatchObject({ centerX: 2000, centerY: 1000 });
+    });
+
+    it('carries rotation and flip through unchanged', () => {
+        const draw = resolvePlacement(placement({ rotation: -30, flipX: true }), background, { width: 1, height: 1 });
+        expect(draw.rotation).toBe(-30);
+        expect(draw.flipX).toBe(true);
+    });
+});
+
+describe('planComposition', () => {
+    const background: Size = { width: 1000, height: 500 };
+    const sizes = new Map<string, Size>([
+        ['sedan', { width: 400, height: 200 }],
+        ['van', { width: 300, height: 300 }],
+    ]);
+
+    it('orders draws back to front by z-index', () => {
+        const draws = planComposition(background, [
+            layer('front', 'sedan', 3),
+            layer('back', 'van', 1),
+            layer('middle', 'sedan', 2),
+        ], sizes);
+        expect(draws.map(draw => draw.layerId)).toEqual(['back', 'middle', 'front']);
+    });
+
+    it('skips layers whose vehicle has no size', () => {
+        const draws = planComposition(background, [layer('a', 'sedan', 1), layer('b', 'missing', 2)], sizes);
+        expect(draws.map(draw => draw.layerId)).toEqual(['a']);
+    });
+
+    it('resolves each layer against its own vehicle', () => {
+        const [van] = planComposition(background, [layer('a', 'van', 1, { x: 0.2, y: 0.9, scale: 0.1 })], sizes);
+        expect(van).toEqual({
+            layerId: 'a',
+            vehicleId: 'van',
+            centerX: 200,
+            centerY: 450,
+            width: 100,
+            height: 100,
+            rotation: 0,
+            flipX: false,
+        });
+    });
+
+    it("doesn't reorder the caller's layers", () => {
+        const layers = [layer('b', 'sedan', 2), layer('a', 'sedan', 1)];
+        planComposition(background, layers, sizes);
+        expect(layers.map(l => l.id)).toEqual(['b', 'a']);
+    });
+});
+
+describe('reframePlacement', () => {
+    const background: Size = { width: 1000, height: 500 };
+    const oldSize: Size = { width: 200, height: 100 };
+
+    it('leaves the placement alone for a full-frame crop', () => {
+        const result = reframePlacement(placement(), background, oldSize, { x: 0, y: 0, width: 200, height: 100 });
+        expect(result.x).toBeCloseTo(0.5);
+        expect(result.y).toBeCloseTo(0.5);
+        expect(result.scale).toBeCloseTo(0.25);
+    });
+
+    it('shifts the center toward a crop on the right half', () => {
+        // The right half's center is 50 vehicle pixels right, or 62.5 background pixels at this scale.
+        const result = reframePlacement(placement(), background, oldSize, { x: 100, y: 0, width: 100, height: 100 });
+        expect(result.x).toBeCloseTo(0.5625);
+        expect(result.scale).toBeCloseTo(0.125);
+    });
+
+    it('mirrors the shift for a flipped vehicle', () => {
+        const result = reframePlacement(placement({ flipX: true }), background, oldSize, { x: 100, y: 0, width: 100, height: 100 });
+        expect(result.x).toBeCloseTo(0.4375);
+    });
+});
+
+describe('getOutputCrop', () => {
+    it('uses the whole output when only the resolution differs', () => {
+        expect(getOutputCrop({ width: 1024, height: 577 }, { width: 4000, height: 2250 }))
+            .toEqual({ x: 0, y: 0, width: 1024, height: 577 });
+    });
+
+    it('crops the top and bottom of a taller output', () => {
+        // A square output for a 4:3 input keeps the middle 4:3 band.
+        const crop = getOutputCrop({ width: 1024, height: 1024 }, { width: 400, height: 300 });
+        expect(crop.x).toBe(0);
+        expect(crop.width).toBe(1024);
+        expect(crop.height).toBeCloseTo(768);
+        expect(crop.y).toBeCloseTo(128);
+    });
+
+    it('crops the sides of a wider output', () => {
+        const crop = getOutputCrop({ width: 1024, height: 1024 }, { width: 300, height: 600 });
+        expect(crop.width).toBeCloseTo(512);
+        expect(crop.x).toBeCloseTo(256);
+        expect(crop.height).toBe(1024);
+    });
+});
@@ -0,0 +1,194 @@
+import type { NormalizedPlacement, PinPosition, VehicleLayer } from '../types';
+
+/**
+ * Layout for a composite: where each vehicle goes on the background, and how
+ * points on the on-screen editor map to the image. Plain numbers in and out,
+ * with no DOM access, so it can be used anywhere and tested directly.
+ */
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+export interface Rect extends Size {
+    x: number;
+    y: number;
+}
+
+/**
+ * The rendered size of an `object-contain` background element together with
+ * the natural size of the image shown inside it.
+ */
+export interface RenderViewport {
+    width: number;
+    height: number;
+    naturalWidth: number;
+    naturalHeight: number;
+}
+
+/** A vehicle's pixel box on the background, positioned by its center. */
+export interface VehicleGeometry {
+    centerX: number;
+    centerY: number;
+    width: number;
+    height: number;
+    rotation: number;
+    flipX: boolean;
+}
+
+/** One layer resolved for drawing. */
+export interface DrawInstruction extends VehicleGeometry {
+    layerId: string;
+    vehicleId: string;
+}
+
+// New vehicles start at a quarter of the background's width.
+export const DEFAULT_VEHICLE_SCALE = 0.25;
+
+/**
+ * Resolves a placement stored relative to the background into pixels. The
+ * height follows the vehicle image's aspect ratio.
+ */
+export const resolvePlacement = (placement: NormalizedPlacement, background: Size, vehicle: Size): VehicleGeometry => {
+    const width = placement.scale * background.width;
+    return {
+        centerX: placement.x * background.width,
+        centerY: placement.y * background.height,
+        width,
+        height: width * (vehicle.height / vehicle.width),
+        rotation: placement.rotation,
+        flipX: placement.flipX,
+    };
+};
+
+/**
+ * Draw instructions for the layers, back to front. Layers whose vehicle has
+ * no size in `vehicleSizes` are skipped.
+ */
+export const planComposition = (
+    background: Size,
+    layers: VehicleLayer[],
+    vehicleSizes: ReadonlyMap<string, Size>,
+): DrawInstruction[] =>
+    [...layers]
+        .sort((a, b) => a.zIndex - b.zIndex)
+        .filter(layer => vehicleSizes.has(layer.vehicleId))
+        .map(layer => ({
+            layerId: layer.id,
+            vehicleId: layer.vehicleId,
+            ...resolvePlacement(layer.placement, background, vehicleSizes.get(layer.vehicleId)!),
+        }));
+
+/** The letterboxed area the image actually occupies inside the element. */
+export const getContentRect = (viewport: RenderViewport): Rect => {
+    const imageAspectRatio = viewport.naturalWidth / viewport.naturalHeight;
+    const containerAspectRatio = viewport.width / viewport.height;
+
+    let width, height;
+    if (imageAspectRatio > containerAspectRatio) {
+        width = viewport.width;
+        height = viewport.width / imageAspectRatio;
+    } else {
+        height = viewport.height;
+        width = viewport.height * imageAspectRatio;
+    }
+
+    return {
+        x: (viewport.width - width) / 2,
+        y: (viewport.height - height) / 2,
+        width,
+        height,
+    };
+};
+
+// Rounding in the model's output size shifts the aspect ratio by well under this.
+const OUTPUT_ASPECT_TOLERANCE = 0.01;
+
+/**
+ * The part of a model output that corresponds to a `target`-sized input.
+ * An output at the same aspect ratio maps whole. Any other output is
+ * center-cropped to the target's aspect ratio, so the scene is never stretched.
+ */
+export const getOutputCrop = (output: Size, target: Size): Rect => {
+    const outputAspect = output.width / output.height;
+    const targetAspect = target.width / target.height;
+    if (Math.abs(outputAspect / targetAspect - 1) <= OUTPUT_ASPECT_TOLERANCE) {
+        return { x: 0, y: 0, width: output.width, height: output.height };
+    }
+    if (outputAspect > targetAspect) {
+        const width = output.height * targetAspect;
+        return { x: (output.width - width) / 2, y: 0, width, height: output.height };
+    }
+    const height = output.width / targetAspect;
+    return { x: 0, y: (output.height - height) / 2, width: output.width, height };
+};
+
+/**
+ * Maps a point in element pixels to a fraction of the background image.
+ * Points in the letterbox bars fall outside 0–1.
+ */
+export const screenToNormalized = (point: PinPosition, viewport: RenderViewport): PinPosition => {
+    const rect = getContentRect(viewport);
+    return {
+        x: (point.x - rect.x) / rect.width,
+        y: (point.y - rect.y) / rect.height,
+    };
+};
+
+/** The inverse of `screenToNormalized`. */
+export const normalizedToScreen = (point: PinPosition, viewport: RenderViewport): PinPosition => {
+    const rect = getContentRect(viewport);
+    return {
+        x: rect.x + point.x * rect.width,
+        y: rect.y + point.y * rect.height,
+    };
+};
+
+/** Maps a point in element pixels to the background image's natural pixels. */
+export const screenToImage = (point: PinPosition, viewport: RenderViewport): PinPosition => {
+    const { x, y } = screenToNormalized(point, viewport);
+    return { x: x * viewport.naturalWidth, y: y * viewport.naturalHeight };
+};
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * The placement for a vehicle dropped at a point on the editor. A drop on a
+ * letterbox bar lands on the nearest image edge.
+ */
+export const createDropPlacement = (
+    point: PinPosition,
+    viewport: RenderViewport,
+    scale: number = DEFAULT_VEHICLE_SCALE,
+): NormalizedPlacement => {
+    const { x, y } = screenToNormalized(point, viewport);
+    return { x: clamp01(x), y: clamp01(y), scale, rotation: 0, flipX: false };
+};
+
+/**
+ * Keeps a placed vehicle visually fixed when its image is re-cropped. `crop`
+ * is the new image's frame in the old image's pixels; it may extend past the
+ * old edges when a refined mask grows the vehicle.
+ */
+export const reframePlacement = (
+    placement: NormalizedPlacement,
+    background: Size,
+    oldSize: Size,
+    crop: Rect,
+): NormalizedPlacement => {
+    // Background pixels per vehicle pixel at the current scale.
+    const pixelScale = (placement.scale * background.width) / oldSize.width;
+    const localX = (crop.x + crop.width / 2 - oldSize.width / 2) * (placement.flipX ? -1 : 1);
+    const localY = crop.y + crop.height / 2 - oldSize.height / 2;
+    const angle = (placement.rotation * Math.PI) / 180;
+    const dx = (localX * Math.cos(angle) - localY * Math.sin(angle)) * pixelScale;
+    const dy = (localX * Math.sin(angle) + localY * Math.cos(angle)) * pixelScale;
+
+    return {
+        ...placement,
+        x: placement.x + dx / background.width,
+        y: placement.y + dy / background.height,
+        scale: (placement.scale * crop.width) / oldSize.width,
+    };
+};
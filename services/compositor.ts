@@ -0,0 +1,70 @@
+import type { FileInfo, NormalizedPlacement } from '../types';
+import { CompositingError } from './errors';
+import { resolvePlacement, type DrawInstruction, type Size, type VehicleGeometry } from './composition';
+import { createCanvas } from '../utils/image';
+
+/** A vehicle to draw, positioned by its center in background image pixels. */
+export interface VehicleDraw extends VehicleGeometry {
+    image: HTMLImageElement;
+}
+
+/**
+ * Resolves a placement stored relative to the background into pixel draw
+ * coordinates for a given background and vehicle image.
+ */
+export const placementToDraw = (placement: NormalizedPlacement, background: Size, vehicleImage: HTMLImageElement): VehicleDraw => ({
+    image: vehicleImage,
+    ...resolvePlacement(placement, background, { width: vehicleImage.naturalWidth, height: vehicleImage.naturalHeight }),
+});
+
+/** Pairs planned draws with their loaded vehicle images, keyed by vehicle id. */
+export const withImages = (instructions: DrawInstruction[], images: ReadonlyMap<string, HTMLImageElement>): VehicleDraw[] =>
+    instructions.map(({ layerId, vehicleId, ...geometry }) => ({ image: images.get(vehicleId)!, ...geometry }));
+
+/** Draws vehicles in order, in the context's current coordinate space. */
+export const drawVehicles = (ctx: CanvasRenderingContext2D, vehicles: VehicleDraw[]) => {
+    for (const vehicle of vehicles) {
+        ctx.save();
+        ctx.translate(vehicle.centerX, vehicle.centerY);
+        ctx.rotate((vehicle.rotation * Math.PI) / 180);
+        ctx.scale(vehicle.flipX ? -1 : 1, 1);
+        ctx.drawImage(
+            vehicle.image,
+            -vehicle.width / 2,
+            -vehicle.height / 2,
+            vehicle.width,
+            vehicle.height
+        );
+        ctx.restore();
+    }
+};
+
+/**
+ * Paints the vehicles over the background at its natural resolution and
+ * returns the result as a PNG ready to send to the model.
+ */
+export const composeScene = (
+    background: HTMLImageElement,
+    vehicles: VehicleDraw[],
+    name: string = 'composite.png',
+): FileInfo => {
+    const { canvas, ctx } = createCanvas(background.naturalWidth, background.naturalHeight);
+    ctx.drawImage(background, 0, 0);
+    drawVehicles(ctx, vehicles);
+
+    let base64: string;
+    try {
+        base64 = canvas.toDataURL('image/png');
+    } catch (e) {
+        throw new CompositingError(`Could not encode the composite image: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    return {
+        name,
+        type: 'image/png',
+        size: 0,
+        base64,
+        width: canvas.width,
+        height: canvas.height,
+    };
+};
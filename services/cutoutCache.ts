@@ -0,0 +1,87 @@
+import type { FileInfo } from '../types';
+import type { ImageModelProvider } from './providers';
+import type { ProcessedCutout } from './cutoutPostProcess';
+import { EXTRACTION_PROMPT } from './prompts';
+import { dataUrlToBytes } from '../utils/image';
+import { idbDelete, idbGet, idbGetAll, idbPut, STORES } from '../utils/indexedDb';
+
+/** An extraction result, stored under a hash of everything that produced it. */
+export interface CachedCutout {
+    key: string;
+    /** The uploaded photo's file name. */
+    name: string;
+    cutout: ProcessedCutout;
+    /** The photo it came from, which the mask editor aligns against. */
+    source: FileInfo;
+    /** Approximate stored size, for eviction. */
+    bytes: number;
+    createdAt: string;
+    lastUsedAt: string;
+}
+
+// Bump when post-processing changes, so older cutouts are extracted again.
+const CACHE_FORMAT = 1;
+const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/** IndexedDB only exists in the browser; elsewhere, such as the CLI, extraction runs uncached. */
+export const isCutoutCacheAvailable = () => typeof indexedDB !== 'undefined';
+
+/**
+ * SHA-256 over the photo's bytes and every input that shapes the result:
+ * the provider and model, the prompt and the size the photo is sent at.
+ */
+export const computeCutoutKey = async (file: FileInfo, provider: ImageModelProvider, maxInputSize: number): Promise<string> => {
+    const settings = new TextEncoder().encode(
+        JSON.stringify([CACHE_FORMAT, provider.name, provider.model, maxInputSize, EXTRACTION_PROMPT]),
+    );
+    const image = dataUrlToBytes(file.base64);
+    const input = new Uint8Array(settings.length + 1 + image.length);
+    input.set(settings, 0);
+    input.set(image, settings.length + 1);
+    return toHex(await crypto.subtle.digest('SHA-256', input));
+};
+
+/** Looks up a cutout and marks it as recently used. */
+export const getCachedCutout = async (key: string): Promise<CachedCutout | null> => {
+    const record = await idbGet<CachedCutout>(STORES.cutouts, key);
+    if (!record) return null;
+    const touched = { ...record, lastUsedAt: new Date().toISOString() };
+    await idbPut(STORES.cutouts, key, touched);
+    return touched;
+};
+
+/** Most recently used first. */
+export const listCachedCutouts = async (): Promise<CachedCutout[]> => {
+    const records = await idbGetAll<CachedCutout>(STORES.cutouts);
+    return records.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+};
+
+export const deleteCachedCutout = (key: string): Promise<void> => idbDelete(STORES.cutouts, key);
+
+/** Drops the least recently used cutouts until the cache fits its budget. */
+const evict = async () => {
+    const records = await listCachedCutouts();
+    let total = records.reduce((sum, record) => sum + record.bytes, 0);
+    for (const record of records.reverse()) {
+        if (total <= MAX_CACHE_BYTES) break;
+        await deleteCachedCutout(record.key);
+        total -= record.bytes;
+    }
+};
+
+export const putCachedCutout = async (key: string, name: string, cutout: ProcessedCutout, source: FileInfo): Promise<void> => {
+    const now = new Date().toISOString();
+    await idbPut<CachedCutout>(STORES.cutouts, key, {
+        key,
+        name,
+        cutout,
+        source,
+        bytes: cutout.src.length + source.base64.length,
+        createdAt: now,
+        lastUsedAt: now,
+    });
+    await evict();
+};
@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createCanvas as createNodeCanvas, loadImage as loadNodeImage, type SKRSContext2D } from '@napi-rs/canvas';
+import { postProcessCutout } from './cutoutPostProcess';
+import { UnusableOutputError } from './errors';
+import { setCanvasBackend } from '../utils/image';
+import { nodeCanvasBackend } from '../node/canvasBackend';
+
+beforeAll(() => {
+    setCanvasBackend(nodeCanvasBackend);
+});
+
+afterAll(() => {
+    setCanvasBackend(null);
+});
+
+type Paint = (ctx: SKRSContext2D) => void;
+
+// A 200x100 model output; the "vehicle" is a dark red box at (60, 30), 80x40.
+const render = (background: Paint | null) => {
+    const canvas = createNodeCanvas(200, 100);
+    const ctx = canvas.getContext('2d');
+    background?.(ctx);
+    ctx.fillStyle = '#802020';
+    ctx.fillRect(60, 30, 80, 40);
+    return canvas.toDataURL('image/png');
+};
+
+const alphaAt = async (src: string, x: number, y: number) => {
+    const image = await loadNodeImage(src);
+    const canvas = createNodeCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(image, 0, 0);
+    return ctx.getImageData(x, y, 1, 1).data[3];
+};
+
+const white: Paint = ctx => {
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, 200, 100);
+};
+
+const checkerboard: Paint = ctx => {
+    for (let y = 0; y < 100; y += 10) {
+        for (let x = 0; x < 200; x += 10) {
+            ctx.fillStyle = (x + y) % 20 === 0 ? '#fff' : '#ccc';
+            ctx.fillRect(x, y, 10, 10);
+        }
+    }
+};
+
+describe('postProcessCutout', () => {
+    it('trims a transparent cutout to its visible pixels', async () => {
+        const result = await postProcessCutout(render(null));
+        expect(result).toMatchObject({ width: 80, height: 40 });
+        expect(await alphaAt(result.src, 40, 20)).toBe(255);
+    });
+
+    it('returns a cutout that is already tight as it is', async () => {
+        const canvas = createNodeCanvas(80, 40);
+        const ctx = canvas.getContext('2d');
+        ctx.fillStyle = '#802020';
+        ctx.fillRect(0, 0, 80, 40);
+        ctx.clearRect(0, 0, 10, 10);
+        const src = canvas.toDataURL('image/png');
+        expect(await postProcessCutout(src)).toEqual({ src, width: 80, height: 40 });
+    });
+
+    it.each([
+        ['a plain white', white],
+        ['a checkerboard', checkerboard],
+    ])('keys out %s backdrop painted in place of transparency', async (_, backdrop) => {
+        const result = await postProcessCutout(render(backdrop));
+        expect(result).toMatchObject({ width: 80, height: 40 });
+        expect(await alphaAt(result.src, 40, 20)).toBe(255);
+    });
+
+    it('keeps backdrop-colored parts inside the vehicle', async () => {
+        const canvas = createNodeCanvas(200, 100);
+        const ctx = canvas.getContext('2d');
+        white(ctx);
+        ctx.fillStyle = '#802020';
+        ctx.fillRect(60, 30, 80, 40);
+        // A white stripe enclosed by the body, like a racing stripe.
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(70, 45, 60, 10);
+        const result = await postProcessCutout(canvas.toDataURL('image/png'));
+        expect(await alphaAt(result.src, 40, 20)).toBe(255);
+    });
+
+    it('rejects a photo whose background was never removed', async () => {
+        const photo = render(ctx => {
+            const gradient = ctx.createLinearGradient(0, 0, 200, 100);
+            gradient.addColorStop(0, '#3a6');
+            gradient.addColorStop(1, '#36c');
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, 200, 100);
+        });
+        await expect(postProcessCutout(photo)).rejects.toBeInstanceOf(UnusableOutputError);
+    });
+
+    it('rejects a cutout with almost nothing in it', async () => {
+        const canvas = createNodeCanvas(200, 100);
+        canvas.getContext('2d').fillRect(0, 0, 5, 5);
+        await expect(postProcessCutout(canvas.toDataURL('image/png'))).rejects.toThrow('almost empty');
+    });
+});
@@ -0,0 +1,149 @@
+import { UnusableOutputError } from './errors';
+import { extractAlpha, getAlphaBounds } from './maskRefinement';
+import { createCanvas, imageDataToDataUrl, loadImage } from '../utils/image';
+
+export interface ProcessedCutout {
+    src: string;
+    width: number;
+    height: number;
+}
+
+/** Pixels at or below this alpha count as background. */
+const TRANSPARENT_ALPHA = 8;
+// With fewer transparent pixels than this, the model ignored the transparency request.
+const MIN_TRANSPARENT_FRACTION = 0.01;
+const KEY_TOLERANCE = 40;
+const MIN_BORDER_MATCH = 0.9;
+const MIN_COVERAGE = 0.02;
+const MAX_COVERAGE = 0.97;
+
+type Rgb = [number, number, number];
+
+const colorDistance = (data: Uint8ClampedArray, i: number, color: Rgb) =>
+    Math.max(Math.abs(data[i] - color[0]), Math.abs(data[i + 1] - color[1]), Math.abs(data[i + 2] - color[2]));
+
+const borderPixels = (width: number, height: number): number[] => {
+    const pixels: number[] = [];
+    for (let x = 0; x < width; x++) pixels.push(x, (height - 1) * width + x);
+    for (let y = 1; y < height - 1; y++) pixels.push(y * width, y * width + width - 1);
+    return pixels;
+};
+
+/**
+ * Finds the colors painted around the vehicle when the model "fakes"
+ * transparency: one color for a plain backdrop, two for a checkerboard.
+ * Returns null when the border is not uniform enough to key safely.
+ */
+const detectBackdrop = (data: Uint8ClampedArray, width: number, height: number): Rgb[] | null => {
+    const border = borderPixels(width, height);
+    // Bucket border colors coarsely and keep the two most common.
+    const buckets = new Map<number, { count: number; sum: Rgb }>();
+    for (const p of border) {
+        const i = p * 4;
+        const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+        const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0] };
+        bucket.count++;
+        bucket.sum[0] += data[i];
+        bucket.sum[1] += data[i + 1];
+        bucket.sum[2] += data[i + 2];
+        buckets.set(key, bucket);
+    }
+    const colors = [...buckets.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 2)
+        .filter(bucket => bucket.count >= border.length * 0.1)
+        .map(({ count, sum }): Rgb => [sum[0] / count, sum[1] / count, sum[2] / count]);
+
+    const matched = border.filter(p => colors.some(color => colorDistance(data, p * 4, color) <= KEY_TOLERANCE)).length;
+    return matched >= border.length * MIN_BORDER_MATCH ? colors : null;
+};
+
+/**
+ * Clears the backdrop by flood-filling inward from the border, so backdrop-
+ * colored parts of the vehicle itself (white paint, grey trim) are kept.
+ * Pixels bordering the fill fade with their distance from the backdrop.
+ */
+const keyOutBackdrop = (data: Uint8ClampedArray, width: number, height: number, colors: Rgb[]) => {
+    const distanceAt = (p: number) => Math.min(...colors.map(color => colorDistance(data, p * 4, color)));
+    const keyed = new Uint8Array(width * height);
+    const stack = borderPixels(width, height).filter(p => distanceAt(p) <= KEY_TOLERANCE);
+    for (const p of stack) keyed[p] = 1;
+
+    while (stack.length > 0) {
+        const p = stack.pop()!;
+        const x = p % width;
+        const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+        for (const n of neighbours) {
+            if (n < 0 || n >= keyed.length || keyed[n]) continue;
+            if (distanceAt(n) <= KEY_TOLERANCE) {
+                keyed[n] = 1;
+                stack.push(n);
+            }
+        }
+    }
+
+    for (let p = 0; p < keyed.length; p++) {
+        if (keyed[p]) {
+            data[p * 4 + 3] = 0;
+            continue;
+        }
+        const x = p % width;
+        const touchesBackdrop = (x > 0 && keyed[p - 1]) || (x < width - 1 && keyed[p + 1]) || keyed[p - width] || keyed[p + width];
+        if (touchesBackdrop) {
+            data[p * 4 + 3] = Math.min(data[p * 4 + 3], Math.round(Math.min(1, distanceAt(p) / (KEY_TOLERANCE * 2)) * 255));
+        }
+    }
+};
+
+const countTransparent = (data: Uint8ClampedArray) => {
+    let count = 0;
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] <= TRANSPARENT_ALPHA) count++;
+    }
+    return count;
+};
+
+/**
+ * Verifies and cleans up the image returned by the extraction model. A result
+ * without real transparency gets its plain or checkerboard backdrop keyed
+ * out; the cutout is then trimmed to its visible pixels. Results where
+ * almost nothing or almost everything is foreground are rejected with a
+ * retryable error.
+ */
+export const postProcessCutout = async (src: string): Promise<ProcessedCutout> => {
+    const image = await loadImage(src);
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0);
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    const total = width * height;
+
+    let modified = false;
+    if (countTransparent(data) < total * MIN_TRANSPARENT_FRACTION) {
+        const backdrop = detectBackdrop(data, width, height);
+        if (!backdrop) {
+            throw new UnusableOutputError("The model returned the vehicle without removing the background.");
+        }
+        keyOutBackdrop(data, width, height, backdrop);
+        ctx.putImageData(imageData, 0, 0);
+        modified = true;
+    }
+
+    const coverage = (total - countTransparent(data)) / total;
+    if (coverage < MIN_COVERAGE) {
+        throw new UnusableOutputError("The extracted cutout is almost empty.");
+    }
+    if (coverage > MAX_COVERAGE) {
+        throw new UnusableOutputError("The extracted cutout still contains its background.");
+    }
+
+    const bounds = getAlphaBounds(extractAlpha(imageData), width, height, TRANSPARENT_ALPHA)!;
+    if (!modified && bounds.width === width && bounds.height === height) {
+        return { src, width, height };
+    }
+
+    const trimmed = ctx.getImageData(bounds.x, bounds.y, bounds.width, bounds.height);
+    return { src: imageDataToDataUrl(trimmed), width: bounds.width, height: bounds.height };
+};
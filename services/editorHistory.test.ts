@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { VehicleLayer } from '../types';
+import {
+    createEditorState,
+    executeCommand,
+    getRedoLabel,
+    getUndoLabel,
+    MAX_UNDO_STEPS,
+    redo,
+    undo,
+    type EditorCommand,
+    type EditorState,
+} from './editorHistory';
+
+const layer: VehicleLayer = {
+    id: 'layer-1',
+    vehicleId: 'vehicle-1',
+    zIndex: 1,
+    placement: { x: 0.5, y: 0.5, scale: 0.3, rotation: 0, flipX: false },
+};
+
+const moveTo = (x: number, mergeKey?: string): EditorCommand => ({
+    label: 'Move vehicle',
+    apply: document => ({ ...document, layers: document.layers.map(l => ({ ...l, placement: { ...l.placement, x } })) }),
+    mergeKey,
+});
+
+const flip: EditorCommand = {
+    label: 'Flip vehicle',
+    apply: document => ({ ...document, layers: document.layers.map(l => ({ ...l, placement: { ...l.placement, flipX: !l.placement.flipX } })) }),
+};
+
+const start = () => createEditorState({ ...createEditorState().document, layers: [layer] });
+const placementOf = (state: EditorState) => state.document.layers[0].placement;
+
+describe('executeCommand', () => {
+    it('records the previous document as an undo step', () => {
+        const state = executeCommand(start(), moveTo(0.2));
+        expect(placementOf(state).x).toBe(0.2);
+        expect(state.past).toHaveLength(1);
+        expect(getUndoLabel(state)).toBe('Move vehicle');
+    });
+
+    it('ignores commands that change nothing', () => {
+        const initial = start();
+        expect(executeCommand(initial, { label: 'Nothing', apply: document => document })).toBe(initial);
+    });
+
+    it('merges a continuous drag into one step', () => {
+        let state = start();
+        state = executeCommand(state, moveTo(0.4, 'transform:layer-1'), 0);
+        state = executeCommand(state, moveTo(0.3, 'transform:layer-1'), 100);
+        state = executeCommand(state, moveTo(0.2, 'transform:layer-1'), 200);
+        expect(state.past).toHaveLength(1);
+        expect(placementOf(undo(state)).x).toBe(0.5);
+    });
+
+    it('starts a new step after a pause or for another control', () => {
+        let state = start();
+        state = executeCommand(state, moveTo(0.4, 'transform:layer-1'), 0);
+        state = executeCommand(state, moveTo(0.3, 'transform:layer-1'), 5_000);
+        state = executeCommand(state, moveTo(0.2, 'nudge:layer-1'), 5_100);
+        expect(state.past).toHaveLength(3);
+    });
+
+    it('keeps a flip right after a drag as its own step', () => {
+        let state = start();
+        state = executeCommand(state, moveTo(0.4, 'transform:layer-1'), 0);
+        state = executeCommand(state, flip, 100);
+        expect(state.past).toHaveLength(2);
+
+        state = undo(state);
+        expect(placementOf(state)).toMatchObject({ x: 0.4, flipX: false });
+    });
+
+    it('drops the oldest steps beyond the limit', () => {
+        let state = start();
+        for (let i = 0; i <= MAX_UNDO_STEPS; i++) state = executeCommand(state, moveTo(i / 1000));
+        expect(state.past).toHaveLength(MAX_UNDO_STEPS);
+        expect(state.past[0].document.layers[0].placement.x).toBe(0);
+    });
+});
+
+describe('undo and redo', () => {
+    it('step back and forth through the history', () => {
+        let state = executeCommand(executeCommand(start(), moveTo(0.2)), flip);
+        state = undo(undo(state));
+        expect(placementOf(state)).toEqual(layer.placement);
+        expect(getUndoLabel(state)).toBeNull();
+        expect(getRedoLabel(state)).toBe('Move vehicle');
+
+        state = redo(redo(state));
+        expect(placementOf(state)).toMatchObject({ x: 0.2, flipX: true });
+        expect(getRedoLabel(state)).toBeNull();
+    });
+
+    it('do nothing at either end of the history', () => {
+        const initial = start();
+        expect(undo(initial)).toBe(initial);
+        expect(redo(initial)).toBe(initial);
+    });
+
+    it('forget undone steps once a new change is made', () => {
+        const state = executeCommand(undo(executeCommand(start(), moveTo(0.2))), flip);
+        expect(state.future).toHaveLength(0);
+        expect(getRedoLabel(state)).toBeNull();
+    });
+
+    it("don't merge the next change into a step from before the undo", () => {
+        let state = executeCommand(start(), moveTo(0.4, 'transform:layer-1'), 0);
+        state = executeCommand(undo(state), moveTo(0.3, 'transform:layer-1'), 100);
+        expect(state.past).toHaveLength(1);
+        expect(placementOf(undo(state)).x).toBe(0.5);
+    });
+});
@@ -0,0 +1,100 @@
+import type { ExtractedVehicle, FileInfo, VehicleLayer } from '../types';
+import { DEFAULT_CALIBRATION, type SceneCalibration } from './perspective';
+
+/** The part of the editor that undo and redo step through. */
+export interface EditorDocument {
+    subjectVehicle: FileInfo | null;
+    backgroundScene: FileInfo | null;
+    vehicles: ExtractedVehicle[];
+    layers: VehicleLayer[];
+    calibration: SceneCalibration;
+}
+
+/** A named change to the document. */
+export interface EditorCommand {
+    /** Shown on the undo and redo buttons, e.g. "Move vehicle". */
+    label: string;
+    /** Returns the document unchanged when there is nothing to do. */
+    apply: (document: EditorDocument) => EditorDocument;
+    /**
+     * Consecutive commands with the same key, such as the ticks of one slider
+     * drag, collapse into a single undo step.
+     */
+    mergeKey?: string;
+}
+
+interface HistoryStep {
+    label: string;
+    document: EditorDocument;
+}
+
+export interface EditorState {
+    document: EditorDocument;
+    /** The document before each undoable step, oldest first. */
+    past: HistoryStep[];
+    /** Undone steps, most recently undone last. */
+    future: HistoryStep[];
+    lastMerge: { key: string; at: number } | null;
+}
+
+export const MAX_UNDO_STEPS = 100;
+// A pause longer than this starts a new step even for the same control.
+const MERGE_WINDOW_MS = 1000;
+
+export const EMPTY_DOCUMENT: EditorDocument = {
+    subjectVehicle: null,
+    backgroundScene: null,
+    vehicles: [],
+    layers: [],
+    calibration: DEFAULT_CALIBRATION,
+};
+
+/** A fresh history, e.g. after opening a project. */
+export const createEditorState = (document: EditorDocument = EMPTY_DOCUMENT): EditorState => ({
+    document,
+    past: [],
+    future: [],
+    lastMerge: null,
+});
+
+export const executeCommand = (state: EditorState, command: EditorCommand, now: number = Date.now()): EditorState => {
+    const document = command.apply(state.document);
+    if (document === state.document) return state;
+
+    const merges = command.mergeKey !== undefined
+        && state.lastMerge?.key === command.mergeKey
+        && now - state.lastMerge.at < MERGE_WINDOW_MS
+        && state.past.length > 0;
+    return {
+        document,
+        past: merges ? state.past : [...state.past, { label: command.label, document: state.document }].slice(-MAX_UNDO_STEPS),
+        future: [],
+        lastMerge: command.mergeKey !== undefined ? { key: command.mergeKey, at: now } : null,
+    };
+};
+
+export const undo = (state: EditorState): EditorState => {
+    const step = state.past[state.past.length - 1];
+    if (!step) return state;
+    return {
+        document: step.document,
+        past: state.past.slice(0, -1),
+        future: [...state.future, { label: step.label, document: state.document }],
+        lastMerge: null,
+    };
+};
+
+export const redo = (state: EditorState): EditorState => {
+    const step = state.future[state.future.length - 1];
+    if (!step) return state;
+    return {
+        document: step.document,
+        past: [...state.past, { label: step.label, document: state.document }],
+        future: state.future.slice(0, -1),
+        lastMerge: null,
+    };
+};
+
+/** Labels for the undo and redo buttons, or null when there is nothing to step to. */
+export const getUndoLabel = (state: EditorState) => state.past[state.past.length - 1]?.label ?? null;
+export const getRedoLabel = (state: EditorState) => state.future[state.future.length - 1]?.label ?? null;
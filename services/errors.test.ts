@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseRetryAfterMs, QuotaError, toServiceError } from './errors';
+
+const httpError = (status: number, message: string, headers?: HeadersInit) =>
+    Object.assign(new Error(message), { status, ...(headers ? { headers: new Headers(headers) } : {}) });
+
+describe('parseRetryAfterMs', () => {
+    it('reads delay seconds', () => {
+        expect(parseRetryAfterMs('12')).toBe(12_000);
+    });
+
+    it('reads an HTTP date relative to now', () => {
+        const now = Date.parse('2025-01-01T00:00:00Z');
+        expect(parseRetryAfterMs('Wed, 01 Jan 2025 00:00:30 GMT', now)).toBe(30_000);
+        expect(parseRetryAfterMs('Tue, 31 Dec 2024 23:00:00 GMT', now)).toBe(0);
+    });
+
+    it('ignores missing or unreadable values', () => {
+        expect(parseRetryAfterMs(null)).toBeUndefined();
+        expect(parseRetryAfterMs('soon')).toBeUndefined();
+    });
+});
+
+describe('toServiceError', () => {
+    it("uses a 429 response's Retry-After header", () => {
+        const error = toServiceError(httpError(429, 'Too Many Requests', { 'Retry-After': '7' }));
+        expect(error).toBeInstanceOf(QuotaError);
+        expect((error as QuotaError).retryAfterMs).toBe(7_000);
+    });
+
+    it('falls back to the retry delay in the message', () => {
+        const error = toServiceError(httpError(429, '{"retryDelay": "3s"}'));
+        expect((error as QuotaError).retryAfterMs).toBe(3_000);
+    });
+
+    it('reads the status without trusting the shape of the error', () => {
+        expect(toServiceError({ status: '429' }).kind).toBe('unknown');
+        expect(toServiceError(httpError(401, 'denied')).kind).toBe('configuration');
+    });
+});
@@ -0,0 +1,228 @@
+export type ServiceErrorKind =
+    | 'invalid-input'
+    | 'model-refused'
+    | 'safety-blocked'
+    | 'no-image'
+    | 'bad-output'
+    | 'quota'
+    | 'network'
+    | 'timeout'
+    | 'configuration'
+    | 'compositing'
+    | 'cancelled'
+    | 'unknown';
+
+/**
+ * Base class for every failure the services surface. `kind` lets the UI pick
+ * a message without `instanceof` chains, and `retryable` tells the request
+ * policy whether another attempt could succeed.
+ */
+export class ServiceError extends Error {
+    readonly kind: ServiceErrorKind;
+    readonly retryable: boolean;
+
+    constructor(kind: ServiceErrorKind, message: string, retryable: boolean = false) {
+        super(message);
+        this.name = 'ServiceError';
+        this.kind = kind;
+        this.retryable = retryable;
+    }
+}
+
+/** The uploaded or composed image could not be read or was rejected by the API. */
+export class InvalidInputError extends ServiceError {
+    constructor(message: string) {
+        super('invalid-input', message);
+        this.name = 'InvalidInputError';
+    }
+}
+
+/**
+ * The model finished without producing an image, e.g. it answered with text
+ * or stopped for a non-safety reason.
+ */
+export class ModelRefusedError extends ServiceError {
+    readonly finishReason?: string;
+    readonly modelText?: string;
+
+    constructor(message: string, finishReason?: string, modelText?: string, kind: ServiceErrorKind = 'model-refused') {
+        super(kind, message);
+        this.name = 'ModelRefusedError';
+        this.finishReason = finishReason;
+        this.modelText = modelText;
+    }
+}
+
+export class SafetyBlockedError extends ModelRefusedError {
+    constructor(message: string, finishReason?: string) {
+        super(message, finishReason, undefined, 'safety-blocked');
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+/** The response carried no candidates at all; usually transient. */
+export class NoImageReturnedError extends ServiceError {
+    constructor(message: string) {
+        super('no-image', message, true);
+        this.name = 'NoImageReturnedError';
+    }
+}
+
+/**
+ * The model returned an image, but not a usable cutout: nothing survived
+ * background removal, or the whole frame still looks like background.
+ * Another roll usually does better.
+ */
+export class UnusableOutputError extends ServiceError {
+    constructor(message: string) {
+        super('bad-output', message, true);
+        this.name = 'UnusableOutputError';
+    }
+}
+
+export class QuotaError extends ServiceError {
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, retryAfterMs?: number) {
+        super('quota', message, true);
+        this.name = 'QuotaError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export class NetworkError extends ServiceError {
+    constructor(message: string, kind: ServiceErrorKind = 'network') {
+        super(kind, message, true);
+        this.name = 'NetworkError';
+    }
+}
+
+export class TimeoutError extends NetworkError {
+    constructor(timeoutMs: number) {
+        super(`The request timed out after ${Math.round(timeoutMs / 1000)}s.`, 'timeout');
+        this.name = 'TimeoutError';
+    }
+}
+
+/** Missing or rejected credentials, or an unknown provider setting. */
+export class ConfigurationError extends ServiceError {
+    constructor(message: string) {
+        super('configuration', message);
+        this.name = 'ConfigurationError';
+    }
+}
+
+/** The browser could not build the pre-blend canvas composite. */
+export class CompositingError extends ServiceError {
+    constructor(message: string) {
+        super('compositing', message);
+        this.name = 'CompositingError';
+    }
+}
+
+export class CancelledError extends ServiceError {
+    constructor(message: string = "The request was cancelled.") {
+        super('cancelled', message);
+        this.name = 'CancelledError';
+    }
+}
+
+/**
+ * Reads a server-provided retry delay. Gemini reports it as a `RetryInfo`
+ * detail (`"retryDelay": "12s"`) embedded in the error message.
+ */
+const parseRetryDelayMs = (message: string): number | undefined => {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+/** Reads an HTTP `Retry-After` value, given either as seconds or as a date. */
+export const parseRetryAfterMs = (value: string | null | undefined, now: number = Date.now()): number | undefined => {
+    if (!value) return undefined;
+    const trimmed = value.trim();
+    if (/^\d+(?:\.\d+)?$/.test(trimmed)) return parseFloat(trimmed) * 1000;
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/** Errors built from an HTTP response may carry its headers. */
+const readRetryAfter = (error: unknown): string | undefined => {
+    const headers = typeof error === 'object' && error !== null ? (error as { headers?: unknown }).headers : undefined;
+    if (headers instanceof Headers) return headers.get('retry-after') ?? undefined;
+    if (typeof headers === 'object' && headers !== null) {
+        const value = (headers as Record<string, unknown>)['retry-after'];
+        return typeof value === 'string' ? value : undefined;
+    }
+    return undefined;
+};
+
+/** SDK and HTTP errors carry the response's status code. */
+const hasStatus = (error: unknown): error is { status: number } =>
+    typeof error === 'object' && error !== null && typeof (error as { status?: unknown }).status === 'number';
+
+/**
+ * Maps anything thrown by a backend call (SDK errors carrying an HTTP
+ * `status` and optionally `headers`, fetch failures, plain errors) onto the
+ * taxonomy above.
+ */
+export const toServiceError = (error: unknown): ServiceError => {
+    if (error instanceof ServiceError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    const status = hasStatus(error) ? error.status : undefined;
+
+    if (error instanceof DOMException && error.name === 'AbortError') return new CancelledError();
+    if (status === 429) {
+        const retryAfterMs = parseRetryAfterMs(readRetryAfter(error)) ?? parseRetryDelayMs(message);
+        return new QuotaError("The image model's rate limit or quota was exceeded.", retryAfterMs);
+    }
+    if (status === 400) return new InvalidInputError(`The request was rejected: ${message}`);
+    if (status === 401 || status === 403) return new ConfigurationError("The API key was rejected. Check GEMINI_API_KEY.");
+    if (status === 408 || (status !== undefined && status >= 500)) {
+        return new NetworkError(`The image service is temporarily unavailable (HTTP ${status}).`);
+    }
+    // fetch() rejects with a TypeError when the network is unreachable.
+    if (error instanceof TypeError) return new NetworkError("Could not reach the image service. Check your connection.");
+
+    const wrapped = new ServiceError('unknown', message);
+    wrapped.stack = error instanceof Error ? error.stack : wrapped.stack;
+    return wrapped;
+};
+
+/** How the proxy server sends a failure to the app. */
+export interface ServiceErrorPayload {
+    kind: ServiceErrorKind;
+    message: string;
+    retryAfterMs?: number;
+    finishReason?: string;
+    modelText?: string;
+}
+
+export const toErrorPayload = (error: ServiceError): ServiceErrorPayload => ({
+    kind: error.kind,
+    message: error.message,
+    ...(error instanceof QuotaError && error.retryAfterMs !== undefined ? { retryAfterMs: error.retryAfterMs } : {}),
+    ...(error instanceof ModelRefusedError && error.finishReason !== undefined ? { finishReason: error.finishReason } : {}),
+    ...(error instanceof ModelRefusedError && error.modelText !== undefined ? { modelText: error.modelText } : {}),
+});
+
+/**
+ * Rebuilds a failure reported by the proxy server, so the request policy
+ * retries it and the UI describes it as if the call had been made locally.
+ */
+export const fromErrorPayload = ({ kind, message, retryAfterMs, finishReason, modelText }: ServiceErrorPayload): ServiceError => {
+    switch (kind) {
+        case 'invalid-input': return new InvalidInputError(message);
+        case 'model-refused': return new ModelRefusedError(message, finishReason, modelText);
+        case 'safety-blocked': return new SafetyBlockedError(message, finishReason);
+        case 'no-image': return new NoImageReturnedError(message);
+        case 'bad-output': return new UnusableOutputError(message);
+        case 'quota': return new QuotaError(message, retryAfterMs);
+        case 'network': return new NetworkError(message);
+        case 'timeout': return new NetworkError(message, 'timeout');
+        case 'configuration': return new ConfigurationError(message);
+        case 'compositing': return new CompositingError(message);
+        case 'cancelled': return new CancelledError(message);
+        default: return new ServiceError('unknown', message);
+    }
+};
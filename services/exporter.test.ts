@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { getCropRect } from './exporter';
+
+describe('getCropRect', () => {
+    it('keeps the whole image for the original aspect', () => {
+        expect(getCropRect(4000, 3000, 'original')).toEqual({ x: 0, y: 0, width: 4000, height: 3000 });
+    });
+
+    it('trims the top and bottom for a wider aspect', () => {
+        expect(getCropRect(4000, 3000, '16:9')).toEqual({ x: 0, y: 375, width: 4000, height: 2250 });
+    });
+
+    it('trims the sides for a taller aspect', () => {
+        expect(getCropRect(4000, 3000, '4:5')).toEqual({ x: 800, y: 0, width: 2400, height: 3000 });
+        expect(getCropRect(3000, 4000, '1:1')).toEqual({ x: 0, y: 500, width: 3000, height: 3000 });
+    });
+
+    it('leaves an image that already has the aspect as it is', () => {
+        expect(getCropRect(1920, 1080, '16:9')).toEqual({ x: 0, y: 0, width: 1920, height: 1080 });
+    });
+
+    it.each(['16:9', '4:3', '1:1', '4:5'] as const)('stays inside odd-sized images at %s', aspect => {
+        const crop = getCropRect(1001, 667, aspect);
+        expect(crop.x).toBeGreaterThanOrEqual(0);
+        expect(crop.y).toBeGreaterThanOrEqual(0);
+        expect(crop.x + crop.width).toBeLessThanOrEqual(1001);
+        expect(crop.y + crop.height).toBeLessThanOrEqual(667);
+    });
+});
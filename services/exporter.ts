@@ -0,0 +1,163 @@
+import type { BlendOptions } from '../types';
+import { CompositingError } from './errors';
+import { baseName, createCanvas, loadImage } from '../utils/image';
+import { embedXmp } from '../utils/imageMetadata';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+export type ExportAspect = 'original' | '16:9' | '4:3' | '1:1' | '4:5';
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export interface WatermarkSettings {
+    src: string;
+    position: WatermarkPosition;
+    /** Logo width as a fraction of the exported image's width. */
+    size: number;
+    opacity: number;
+}
+
+export interface ExportSettings {
+    format: ExportFormat;
+    /** 0-1; ignored for PNG. */
+    quality: number;
+    aspect: ExportAspect;
+    /** Output width in pixels, or null to keep the cropped size. Never upscales. */
+    width: number | null;
+    watermark: WatermarkSettings | null;
+}
+
+/** What went into the image, written into its metadata. */
+export interface ExportSource {
+    vehicleNames: string[];
+    backgroundName: string;
+    blendOptions: BlendOptions;
+    createdAt: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mimeType: string; extension: string }> = {
+    png: { label: 'PNG', mimeType: 'image/png', extension: 'png' },
+    jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+    webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+};
+
+export const EXPORT_ASPECTS: ExportAspect[] = ['original', '16:9', '4:3', '1:1', '4:5'];
+
+/** Common listing-site and social-media widths. */
+export const EXPORT_SIZE_PRESETS: { label: string; width: number | null }[] = [
+    { label: 'Full size', width: null },
+    { label: 'Listing, 2048 px', width: 2048 },
+    { label: 'Full HD, 1920 px', width: 1920 },
+    { label: 'Web, 1200 px', width: 1200 },
+    { label: 'Social, 1080 px', width: 1080 },
+];
+
+export const WATERMARK_POSITIONS: WatermarkPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    format: 'jpeg',
+    quality: 0.9,
+    aspect: 'original',
+    width: null,
+    watermark: null,
+};
+
+const APP_NAME = 'Vehicle Background Swap AI';
+// IPTC's term for a composite that includes generative-AI output.
+const AI_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia';
+const WATERMARK_MARGIN = 0.03;
+
+/** The largest centered rectangle of the requested aspect ratio. */
+export const getCropRect = (width: number, height: number, aspect: ExportAspect) => {
+    if (aspect === 'original') return { x: 0, y: 0, width, height };
+    const [w, h] = aspect.split(':').map(Number);
+    const cropWidth = Math.min(width, Math.round((height * w) / h));
+    const cropHeight = Math.min(height, Math.round((cropWidth * h) / w));
+    return {
+        x: Math.round((width - cropWidth) / 2),
+        y: Math.round((height - cropHeight) / 2),
+        width: cropWidth,
+        height: cropHeight,
+    };
+};
+
+const getWatermarkRect = (outWidth: number, outHeight: number, logo: HTMLImageElement, settings: WatermarkSettings) => {
+    const width = outWidth * settings.size;
+    const height = width * (logo.naturalHeight / logo.naturalWidth);
+    const margin = Math.min(outWidth, outHeight) * WATERMARK_MARGIN;
+    const [vertical, horizontal] = settings.position === 'center' ? ['center', 'center'] : settings.position.split('-');
+    const x = horizontal === 'left' ? margin : horizontal === 'right' ? outWidth - width - margin : (outWidth - width) / 2;
+    const y = vertical === 'top' ? margin : vertical === 'bottom' ? outHeight - height - margin : (outHeight - height) / 2;
+    return { x, y, width, height };
+};
+
+/** Crops, resizes and watermarks the image. `maxWidth` caps the size further, for previews. */
+const renderExport = async (src: string, settings: ExportSettings, maxWidth?: number) => {
+    const [image, logo] = await Promise.all([
+        loadImage(src),
+        settings.watermark ? loadImage(settings.watermark.src) : Promise.resolve(null),
+    ]);
+    const crop = getCropRect(image.naturalWidth, image.naturalHeight, settings.aspect);
+    const width = Math.round(Math.min(crop.width, settings.width ?? crop.width, maxWidth ?? crop.width));
+    const height = Math.max(1, Math.round((width * crop.height) / crop.width));
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+    if (logo && settings.watermark) {
+        const rect = getWatermarkRect(width, height, logo, settings.watermark);
+        ctx.globalAlpha = settings.watermark.opacity;
+        ctx.drawImage(logo, rect.x, rect.y, rect.width, rect.height);
+        ctx.globalAlpha = 1;
+    }
+    return canvas;
+};
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** An XMP packet marking the image as AI-edited, with the blend settings used. */
+export const buildXmp = (source: ExportSource): string => {
+    const description = `AI-edited: ${source.vehicleNames.join(', ')} composited into ${source.backgroundName} and blended by a generative image model.`;
+    return [
+        '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+        '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+        ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+        '  <rdf:Description rdf:about=""',
+        '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+        '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+        '    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"',
+        '    xmlns:vbs="urn:vehicle-background-swap:xmp:1.0#"',
+        `    xmp:CreatorTool="${APP_NAME}"`,
+        `    xmp:CreateDate="${escapeXml(source.createdAt)}"`,
+        `    Iptc4xmpExt:DigitalSourceType="${AI_SOURCE_TYPE}"`,
+        `    vbs:BlendOptions="${escapeXml(JSON.stringify(source.blendOptions))}">`,
+        `   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(description)}</rdf:li></rdf:Alt></dc:description>`,
+        '  </rdf:Description>',
+        ' </rdf:RDF>',
+        '</x:xmpmeta>',
+        '<?xpacket end="w"?>',
+    ].join('\n');
+};
+
+/** `<vehicles>-on-<background>[-<aspect>].<ext>`, built from the input file names. */
+export const buildExportFileName = (source: ExportSource, settings: ExportSettings): string => {
+    const vehicles = source.vehicleNames.map(baseName).join('+') || 'vehicle';
+    const aspect = settings.aspect === 'original' ? '' : `-${settings.aspect.replace(':', 'x')}`;
+    const size = settings.width ? `-${settings.width}w` : '';
+    return `${vehicles}-on-${baseName(source.backgroundName)}${aspect}${size}.${EXPORT_FORMATS[settings.format].extension}`;
+};
+
+/** A small rendering of the export, for the panel preview. */
+export const renderExportPreview = async (src: string, settings: ExportSettings, maxWidth: number): Promise<string> =>
+    (await renderExport(src, settings, maxWidth)).toDataURL('image/png');
+
+export const exportImage = async (src: string, settings: ExportSettings, source: ExportSource): Promise<Blob> => {
+    const canvas = await renderExport(src, settings);
+    const { mimeType } = EXPORT_FORMATS[settings.format];
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, settings.quality));
+    // Browsers without an encoder for the type silently fall back to PNG.
+    if (!blob || blob.type !== mimeType) {
+        throw new CompositingError(`This browser can't encode ${EXPORT_FORMATS[settings.format].label} images.`);
+    }
+    const bytes = embedXmp(new Uint8Array(await blob.arrayBuffer()), mimeType, buildXmp(source), canvas.width, canvas.height);
+    return new Blob([bytes], { type: mimeType });
+};
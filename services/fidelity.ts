@@ -0,0 +1,74 @@
+import type { VehicleDraw } from './compositor';
+import { renderVehicleRegion } from './merge';
+import { createCanvas, imageDataToDataUrl, loadImage } from '../utils/image';
+
+export interface DriftAnalysis {
+    /** Percentage of background pixels the model changed noticeably. */
+    score: number;
+    /** Difference heatmap with the vehicle region masked out, as a PNG data URL. */
+    heatmap: string;
+}
+
+export const DEFAULT_DRIFT_THRESHOLD = 5;
+
+// Comparison runs on a downscaled copy; small differences don't need full resolution.
+const ANALYSIS_SIZE = 512;
+// Per-channel difference above which a pixel counts as changed. Absorbs re-encoding noise.
+const CHANGE_THRESHOLD = 24;
+
+/**
+ * Compares the model's output against the pre-blend composite outside the
+ * vehicles. The blend prompt forbids touching the background, so anything
+ * that changed there (repainted signs, a new sky) counts as drift.
+ */
+export const analyzeDrift = async (
+    compositeSrc: string,
+    resultSrc: string,
+    draws: VehicleDraw[],
+    background: { width: number; height: number },
+): Promise<DriftAnalysis> => {
+    const [composite, result] = await Promise.all([loadImage(compositeSrc), loadImage(resultSrc)]);
+    const factor = ANALYSIS_SIZE / Math.max(background.width, background.height);
+    const width = Math.max(1, Math.round(background.width * factor));
+    const height = Math.max(1, Math.round(background.height * factor));
+
+    // The model may answer at a different resolution, so both are resampled to one size.
+    const sample = (image: HTMLImageElement) => {
+        const { ctx } = createCanvas(width, height);
+        ctx.drawImage(image, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height).data;
+    };
+    const before = sample(composite);
+    const after = sample(result);
+
+    // The region the model may change, including the feathered edge a merge blends across.
+    const mask = renderVehicleRegion(draws, background, width, height);
+
+    const heatmap = new ImageData(width, height);
+    let considered = 0;
+    let changed = 0;
+    for (let p = 0; p < mask.length; p++) {
+        const i = p * 4;
+        const luminance = 0.299 * before[i] + 0.587 * before[i + 1] + 0.114 * before[i + 2];
+        heatmap.data[i + 3] = 255;
+        if (mask[p] > 0) {
+            // The vehicle region is shown dimmed and tinted so it reads as excluded.
+            heatmap.data[i] = luminance * 0.2;
+            heatmap.data[i + 1] = luminance * 0.2;
+            heatmap.data[i + 2] = luminance * 0.2 + 60;
+            continue;
+        }
+        const diff = Math.max(Math.abs(before[i] - after[i]), Math.abs(before[i + 1] - after[i + 1]), Math.abs(before[i + 2] - after[i + 2]));
+        considered++;
+        if (diff > CHANGE_THRESHOLD) changed++;
+        const heat = Math.min(1, diff / 96);
+        heatmap.data[i] = luminance * 0.4 * (1 - heat) + 255 * heat;
+        heatmap.data[i + 1] = luminance * 0.4 * (1 - heat);
+        heatmap.data[i + 2] = luminance * 0.4 * (1 - heat);
+    }
+
+    return {
+        score: considered > 0 ? Math.round((changed / considered) * 1000) / 10 : 0,
+        heatmap: imageDataToDataUrl(heatmap),
+    };
+};
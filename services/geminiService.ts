@@ -1,118 +1,78 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { FileInfo } from '../types';
-
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable is not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const base64ToInlineData = (fileInfo: FileInfo) => {
-    const [header, data] = fileInfo.base64.split(',');
-    if (!header || !data) {
-        throw new Error("Invalid base64 string format");
-    }
-    const mimeType = header.match(/:(.*?);/)?.[1] ?? fileInfo.type;
-    return {
-        inlineData: {
-            mimeType,
-            data,
-        },
-    };
-};
-
+import type { BlendOptions, FileInfo, VehicleDirection } from '../types';
+import { getImageProvider } from './providers';
+import { runWithPolicy, type RequestOptions } from './requestPolicy';
+import { postProcessCutout, type ProcessedCutout } from './cutoutPostProcess';
+import { DEFAULT_BLEND_OPTIONS } from './blendOptions';
+import { getSizeLimits, prepareForModel, restoreResolution } from './imagePipeline';
+import { computeCutoutKey, getCachedCutout, isCutoutCacheAvailable, putCachedCutout } from './cutoutCache';
+
+export type { RequestOptions, RetryInfo } from './requestPolicy';
+export type { ProcessedCutout } from './cutoutPostProcess';
+
+/**
+ * Extracts the vehicle and validates the result. Post-processing runs inside
+ * the request policy, so an unusable cutout is re-rolled like a failed call.
+ * The cutout stays at the model's resolution; it is drawn much smaller in the scene.
+ *
+ * Results are cached by content, so the same photo is only extracted once.
+ * The cache is best-effort: if storage fails, extraction carries on without it.
+ */
 export const extractVehicle = async (
     subjectVehicle: FileInfo,
-): Promise<string> => {
-    const model = 'gemini-2.5-flash-image';
-    
-    const subjectVehiclePart = base64ToInlineData(subjectVehicle);
-
-    const prompt = `
-**TASK: PRECISION VEHICLE EXTRACTION**
-
-Your task is to perform a clean and precise extraction of the main vehicle from the provided image.
-
-**INSTRUCTIONS:**
-1.  **IDENTIFY:** Accurately identify the primary subject vehicle in the image.
-2.  **MASK:** Create a highly detailed mask that perfectly outlines the vehicle, including windows and gaps between spokes on the wheels. Exclude everything else (background, ground, other objects, shadows).
-3.  **REMOVE BACKGROUND:** Use the mask to completely remove the background, making it 100% transparent.
-4.  **CROP TIGHTLY:** Crop the resulting image so that the image dimensions are as small as possible while still containing the entire vehicle. There should be minimal transparent padding around the vehicle. The vehicle should be the only thing in the image.
-
-The final output **MUST** be a PNG image of **ONLY** the vehicle on a fully transparent background, cropped to its bounds.
-`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: {
-            parts: [
-                { text: prompt },
-                subjectVehiclePart,
-            ],
-        },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
+    options?: RequestOptions,
+): Promise<ProcessedCutout> => {
+    const provider = getImageProvider();
+    const maxSize = getSizeLimits().extraction;
+    const key = isCutoutCacheAvailable() ? await computeCutoutKey(subjectVehicle, provider, maxSize).catch(e => {
+        console.warn("Could not hash the photo for the cutout cache.", e);
+        return null;
+    }) : null;
+    const cached = key && await getCachedCutout(key).catch(e => {
+        console.warn("Could not read the cutout cache.", e);
+        return null;
     });
-
-    const parts = response?.candidates?.[0]?.content?.parts;
-    if (parts) {
-        for (const part of parts) {
-            if (part.inlineData) {
-                const base64ImageBytes: string = part.inlineData.data;
-                return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-            }
-        }
+    if (cached) return cached.cutout;
+
+    const prepared = await prepareForModel(subjectVehicle, maxSize, 'image/jpeg');
+    const cutout = await runWithPolicy(
+        async signal => postProcessCutout(await provider.extractVehicle(prepared.file, { signal })),
+        options,
+    );
+    if (key) {
+        await putCachedCutout(key, subjectVehicle.name, cutout, subjectVehicle)
+            .catch(e => console.warn("Could not save the cutout to the cache.", e));
     }
-
-    throw new Error("No image was generated by the API during extraction.");
+    return cutout;
 };
 
+/** Renders an extracted cutout from a new viewpoint, validated like an extraction. */
+export const reorientVehicle = async (
+    cutout: FileInfo,
+    direction: VehicleDirection,
+    options?: RequestOptions,
+): Promise<ProcessedCutout> => {
+    const prepared = await prepareForModel(cutout, getSizeLimits().extraction, 'image/png');
+    return runWithPolicy(
+        async signal => postProcessCutout(await getImageProvider().reorientVehicle(prepared.file, direction, { signal })),
+        options,
+    );
+};
 
+/**
+ * Blends a downscaled copy of the composite and returns the result at the
+ * composite's full size, so exports are never smaller than the input photo.
+ */
 export const blendVehicleIntoScene = async (
-    compositeImage: FileInfo
+    compositeImage: FileInfo,
+    blendOptions: BlendOptions = DEFAULT_BLEND_OPTIONS,
+    options?: RequestOptions,
 ): Promise<string> => {
-    const model = 'gemini-2.5-flash-image';
-    const imagePart = base64ToInlineData(compositeImage);
-
-    const prompt = `
-**TASK: REALISTIC VEHICLE INTEGRATION**
-
-You are a master photo editor specializing in photorealistic compositing. You will be provided with a single composite image containing a background scene with a vehicle placed on top of it.
-
-**YOUR SOLE OBJECTIVE:** Make the vehicle look like it naturally belongs in the background scene by realistically blending it.
-
-**MANDATORY RULES:**
-1.  **PRESERVE THE BACKGROUND:** The background scene within the provided image is **PERFECT** and **MUST NOT BE ALTERED, REPLACED, OR MODIFIED IN ANY WAY.**
-2.  **PRESERVE VEHICLE PLACEMENT:** The vehicle's position, size, and orientation are **FIXED** and **MUST NOT BE CHANGED.**
-
-**YOUR ONLY ALLOWED ACTIONS:**
-- **APPLY REALISTIC LIGHTING:** Adjust the lighting on the vehicle to match the direction, color, and intensity of the light sources in the background.
-- **CAST ACCURATE SHADOWS:** Generate a soft, realistic shadow on the ground beneath and around the vehicle, consistent with the scene's lighting.
-- **ADD ENVIRONMENT REFLECTIONS:** Apply subtle reflections of the surrounding environment onto the vehicle's reflective surfaces (e.g., windows, paint, chrome).
-
-The final output MUST be the original image, but with the vehicle seamlessly blended. Return ONLY the final photorealistic image.
-`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: {
-            parts: [{ text: prompt }, imagePart],
-        },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-
-    const parts = response?.candidates?.[0]?.content?.parts;
-    if (parts) {
-        for (const part of parts) {
-            if (part.inlineData) {
-                const base64ImageBytes: string = part.inlineData.data;
-                return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-            }
-        }
-    }
-
-    throw new Error("No image was generated by the API during blending.");
-};
\ No newline at end of file
+    const prepared = await prepareForModel(compositeImage, getSizeLimits().blend, 'image/jpeg');
+    return runWithPolicy(
+        async signal => restoreResolution(
+            await getImageProvider().blendVehicleIntoScene(prepared.file, blendOptions, { signal }),
+            prepared.original,
+        ),
+        options,
+    );
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_UPLOAD_LIMITS, fileNameFromUrl, importImageFile, readExifOrientation, sniffFormat } from './imageImport';
+import { InvalidInputError } from './errors';
+
+const bytes = (...parts: (string | number[])[]) =>
+    Uint8Array.from(parts.flatMap(part => typeof part === 'string' ? [...part].map(c => c.charCodeAt(0)) : part));
+
+/** A JPEG header with a JFIF segment, then EXIF holding only an orientation tag. */
+const jpegWithOrientation = (orientation: number, littleEndian: boolean) => {
+    const u16 = (n: number) => littleEndian ? [n & 0xff, n >> 8] : [n >> 8, n & 0xff];
+    const u32 = (n: number) => littleEndian ? [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24] : [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+    const tiff = [...(littleEndian ? [0x49, 0x49] : [0x4d, 0x4d]), ...u16(42), ...u32(8), ...u16(1), ...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation), 0, 0, ...u32(0)];
+    const exif = [...bytes('Exif\0\0'), ...tiff];
+    return bytes([0xff, 0xd8], [0xff, 0xe0, 0, 16], 'JFIF\0', new Array(9).fill(0), [0xff, 0xe1, (exif.length + 2) >> 8, (exif.length + 2) & 0xff], exif, [0xff, 0xda]);
+};
+
+describe('sniffFormat', () => {
+    it.each([
+        ['jpeg', bytes([0xff, 0xd8, 0xff, 0xe0])],
+        ['png', bytes([0x89], 'PNG\r\n')],
+        ['webp', bytes('RIFF', [0, 0, 0, 0], 'WEBPVP8 ')],
+        ['gif', bytes('GIF89a')],
+        ['heic', bytes([0, 0, 0, 24], 'ftypheic')],
+        ['heic', bytes([0, 0, 0, 24], 'ftypmif1')],
+        ['avif', bytes([0, 0, 0, 24], 'ftypavif')],
+    ])('recognizes %s by its signature', (format, header) => {
+        expect(sniffFormat(header)).toBe(format);
+    });
+
+    it('rejects anything else', () => {
+        expect(sniffFormat(bytes('%PDF-1.7'))).toBeNull();
+        expect(sniffFormat(bytes([0, 0, 0, 24], 'ftypmp42'))).toBeNull();
+    });
+});
+
+describe('readExifOrientation', () => {
+    it.each([true, false])('reads the orientation tag (little-endian: %s)', littleEndian => {
+        expect(readExifOrientation(jpegWithOrientation(6, littleEndian))).toBe(6);
+    });
+
+    it('treats missing, unknown or truncated EXIF as upright', () => {
+        expect(readExifOrientation(bytes([0xff, 0xd8, 0xff, 0xda]))).toBe(1);
+        expect(readExifOrientation(jpegWithOrientation(9, true))).toBe(1);
+        expect(readExifOrientation(jpegWithOrientation(6, true).subarray(0, 40))).toBe(1);
+    });
+});
+
+describe('importImageFile', () => {
+    it('rejects files over the size limit before reading them', async () => {
+        const file = new File([new Uint8Array(3 * 1024 * 1024)], 'huge.jpg', { type: 'image/jpeg' });
+        await expect(importImageFile(file, { ...DEFAULT_UPLOAD_LIMITS, maxBytes: 2 * 1024 * 1024 }))
+            .rejects.toThrow('"huge.jpg" is 3.0 MB. Files up to 2.0 MB are accepted.');
+    });
+
+    it('rejects files that are not images, whatever their type says', async () => {
+        const file = new File(['%PDF-1.7'], 'brochure.jpg', { type: 'image/jpeg' });
+        await expect(importImageFile(file)).rejects.toBeInstanceOf(InvalidInputError);
+        await expect(importImageFile(file)).rejects.toThrow("isn't a supported image");
+    });
+});
+
+describe('fileNameFromUrl', () => {
+    it('decodes the last path segment', () => {
+        expect(fileNameFromUrl('https://example.com/cars/red%20car.jpg?w=800')).toBe('red car.jpg');
+    });
+
+    it('keeps a name that is not valid percent-encoding', () => {
+        expect(fileNameFromUrl('https://example.com/100%.jpg')).toBe('100%.jpg');
+        expect(fileNameFromUrl('https://example.com/%E0%A4%A.png')).toBe('%E0%A4%A.png');
+    });
+
+    it('falls back to a generic name for bare addresses', () => {
+        expect(fileNameFromUrl('https://example.com/')).toBe('image');
+    });
+});
@@ -0,0 +1,183 @@
+import type { FileInfo } from '../types';
+import { InvalidInputError } from './errors';
+import { createCanvas } from '../utils/image';
+
+export interface UploadLimits {
+    maxBytes: number;
+    /** Width times height, after decoding. */
+    maxPixels: number;
+    /** Shortest side; anything smaller is too little for the model to work with. */
+    minDimension: number;
+}
+
+export const DEFAULT_UPLOAD_LIMITS: UploadLimits = {
+    maxBytes: 40 * 1024 * 1024,
+    maxPixels: 60_000_000,
+    minDimension: 256,
+};
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp' | 'heic' | 'avif';
+
+export const MIME_TYPES: Record<ImageFormat, string> = {
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    gif: 'image/gif',
+    bmp: 'image/bmp',
+    heic: 'image/heic',
+    avif: 'image/avif',
+};
+
+// Formats every model endpoint accepts as-is. Anything else is re-encoded.
+const PASSTHROUGH_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp'];
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const JPEG_QUALITY = 0.92;
+// EXIF lives in the first APP1 segment, well inside this much of the file.
+const HEADER_BYTES = 128 * 1024;
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+/** Identifies the format from the file's signature; browsers often leave `File.type` empty for HEIC. */
+export const sniffFormat = (bytes: Uint8Array): ImageFormat | null => {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+    if (ascii(bytes, 0, 4) === '\x89PNG') return 'png';
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+    if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+    if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+    if (ascii(bytes, 4, 4) === 'ftyp') {
+        const brand = ascii(bytes, 8, 4);
+        if (brand === 'avif' || brand === 'avis') return 'avif';
+        if (HEIF_BRANDS.includes(brand)) return 'heic';
+    }
+    return null;
+};
+
+/** Reads the EXIF orientation tag (1-8) from a JPEG header; 1 means upright. */
+export const readExifOrientation = (bytes: Uint8Array): number => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        const length = view.getUint16(offset + 2);
+        if (marker === 0xe1 && ascii(bytes, offset + 4, 6) === 'Exif\0\0') {
+            const tiff = offset + 10;
+            if (tiff + 8 > bytes.length) return 1;
+            const little = ascii(bytes, tiff, 2) === 'II';
+            const ifd = tiff + view.getUint32(tiff + 4, little);
+            if (ifd + 2 > bytes.length) return 1;
+            const entries = view.getUint16(ifd, little);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 12 > bytes.length) return 1;
+                if (view.getUint16(entry, little) === 0x0112) {
+                    const value = view.getUint16(entry + 8, little);
+                    return value >= 1 && value <= 8 ? value : 1;
+                }
+            }
+            return 1;
+        }
+        // Start of scan: image data follows, no more metadata segments.
+        if (marker === 0xda) return 1;
+        offset += 2 + length;
+    }
+    return 1;
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/** Uses the browser's own HEIC support where it has one (Safari), otherwise a bundled decoder. */
+const decodeHeic = async (file: Blob): Promise<ImageBitmap> => {
+    try {
+        return await createImageBitmap(file);
+    } catch {
+        const { default: heic2any } = await import('heic2any');
+        const converted = await heic2any({ blob: file, toType: 'image/png' });
+        return createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+    }
+};
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new InvalidInputError("The file could not be read."));
+        reader.readAsDataURL(blob);
+    });
+
+/**
+ * Validates an uploaded file and normalizes it for the rest of the app:
+ * HEIC and other less common formats are converted, EXIF rotation is baked
+ * into the pixels, and the returned size is that of the upright image.
+ */
+export const importImageFile = async (file: File, limits: UploadLimits = DEFAULT_UPLOAD_LIMITS): Promise<FileInfo> => {
+    if (file.size > limits.maxBytes) {
+        throw new InvalidInputError(`"${file.name}" is ${formatMegabytes(file.size)}. Files up to ${formatMegabytes(limits.maxBytes)} are accepted.`);
+    }
+    const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    const format = sniffFormat(header);
+    if (!format) {
+        throw new InvalidInputError(`"${file.name}" isn't a supported image. Use JPEG, PNG, WebP or HEIC.`);
+    }
+
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = format === 'heic' ? await decodeHeic(file) : await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch (e) {
+        console.error(e);
+        throw new InvalidInputError(`"${file.name}" could not be decoded. It may be damaged, or this browser can't read ${format.toUpperCase()} files.`);
+    }
+
+    try {
+        const { width, height } = bitmap;
+        if (width * height > limits.maxPixels) {
+            throw new InvalidInputError(`"${file.name}" is ${(width * height / 1e6).toFixed(0)} megapixels. Images up to ${(limits.maxPixels / 1e6).toFixed(0)} megapixels are accepted.`);
+        }
+        if (Math.min(width, height) < limits.minDimension) {
+            throw new InvalidInputError(`"${file.name}" is only ${width}×${height} pixels. Both sides need to be at least ${limits.minDimension} pixels.`);
+        }
+
+        const orientation = format === 'jpeg' ? readExifOrientation(header) : 1;
+        if (PASSTHROUGH_FORMATS.includes(format) && orientation === 1) {
+            const type = MIME_TYPES[format];
+            // Rewrite the data URL's type too, in case the browser didn't know it.
+            const base64 = (await readAsDataUrl(file)).replace(/^data:[^;,]*/, `data:${type}`);
+            return { name: file.name, type, size: file.size, base64, width, height };
+        }
+
+        // The bitmap is already upright, so re-encoding drops the rotation flag along with the rest of the EXIF.
+        const { canvas, ctx } = createCanvas(width, height);
+        ctx.drawImage(bitmap, 0, 0);
+        const type = format === 'jpeg' || format === 'heic' ? 'image/jpeg' : 'image/png';
+        const base64 = canvas.toDataURL(type, JPEG_QUALITY);
+        const name = file.name.replace(/\.[^.]+$/, '') + (type === 'image/jpeg' ? '.jpg' : '.png');
+        return { name, type, size: Math.round((base64.length - base64.indexOf(',') - 1) * 0.75), base64, width, height };
+    } finally {
+        bitmap.close();
+    }
+};
+
+/** The last path segment of an address, decoded where it's valid percent-encoding. */
+export const fileNameFromUrl = (url: string): string => {
+    const name = new URL(url).pathname.split('/').pop() || '';
+    try {
+        return decodeURIComponent(name) || 'image';
+    } catch {
+        return name || 'image';
+    }
+};
+
+/** Downloads an image from a web address, then imports it like an upload. */
+export const importImageUrl = async (url: string, limits: UploadLimits = DEFAULT_UPLOAD_LIMITS): Promise<FileInfo> => {
+    let response: Response;
+    try {
+        response = await fetch(url);
+    } catch {
+        throw new InvalidInputError("That address couldn't be downloaded. The site may block other apps from loading its images; save the image and upload it instead.");
+    }
+    if (!response.ok) {
+        throw new InvalidInputError(`That address returned an error (${response.status}).`);
+    }
+    const blob = await response.blob();
+    return importImageFile(new File([blob], fileNameFromUrl(url), { type: blob.type }), limits);
+};
@@ -0,0 +1,96 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createCanvas as createNodeCanvas, loadImage as loadNodeImage } from '@napi-rs/canvas';
+import { DEFAULT_SIZE_LIMITS, getSizeLimits, prepareForModel, restoreResolution } from './imagePipeline';
+import { ConfigurationError } from './errors';
+import { setCanvasBackend } from '../utils/image';
+import { nodeCanvasBackend } from '../node/canvasBackend';
+
+beforeAll(() => {
+    setCanvasBackend(nodeCanvasBackend);
+});
+
+afterAll(() => {
+    setCanvasBackend(null);
+});
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+const photo = (width: number, height: number) => {
+    const canvas = createNodeCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#36c';
+    ctx.fillRect(0, 0, width, height);
+    const base64 = canvas.toDataURL('image/png');
+    return { name: 'scene.png', type: 'image/png', size: base64.length, base64, width, height };
+};
+
+const sizeOf = async (src: string) => {
+    const image = await loadNodeImage(src);
+    return { width: image.width, height: image.height };
+};
+
+describe('getSizeLimits', () => {
+    it('uses the defaults when nothing is configured', () => {
+        vi.stubEnv('MAX_EXTRACTION_SIZE', '');
+        vi.stubEnv('MAX_BLEND_SIZE', '');
+        expect(getSizeLimits()).toEqual(DEFAULT_SIZE_LIMITS);
+    });
+
+    it('reads the limits from the environment', () => {
+        vi.stubEnv('MAX_EXTRACTION_SIZE', '1024');
+        vi.stubEnv('MAX_BLEND_SIZE', '4096');
+        expect(getSizeLimits()).toEqual({ extraction: 1024, blend: 4096 });
+    });
+
+    it.each(['100', '1500.5', 'large'])('rejects a limit of "%s"', value => {
+        vi.stubEnv('MAX_BLEND_SIZE', value);
+        expect(() => getSizeLimits()).toThrow(ConfigurationError);
+    });
+});
+
+describe('prepareForModel', () => {
+    it('sends an image that already fits as it is', async () => {
+        const file = photo(800, 600);
+        expect(await prepareForModel(file, 1024, 'image/jpeg')).toEqual({ file, scale: 1, original: { width: 800, height: 600 } });
+    });
+
+    it('shrinks the longest side to the limit and keeps the aspect ratio', async () => {
+        const prepared = await prepareForModel(photo(3000, 2000), 1024, 'image/jpeg');
+        expect(prepared.scale).toBeCloseTo(1024 / 3000);
+        expect(prepared.original).toEqual({ width: 3000, height: 2000 });
+        expect(prepared.file).toMatchObject({ name: 'scene.png', type: 'image/jpeg', width: 1024, height: 683 });
+        expect(prepared.file.base64).toMatch(/^data:image\/jpeg;base64,/);
+        expect(await sizeOf(prepared.file.base64)).toEqual({ width: 1024, height: 683 });
+    });
+});
+
+describe('restoreResolution', () => {
+    it('returns output that already has the original size', async () => {
+        const { base64 } = photo(400, 300);
+        expect(await restoreResolution(base64, { width: 400, height: 300 })).toBe(base64);
+    });
+
+    it('scales the output back up to the original size', async () => {
+        const restored = await restoreResolution(photo(400, 300).base64, { width: 1600, height: 1200 });
+        expect(await sizeOf(restored)).toEqual({ width: 1600, height: 1200 });
+    });
+
+    it('crops a square output to a wide original instead of stretching it', async () => {
+        // Red bands at the top and bottom of the square fall outside a 4:3 crop.
+        const canvas = createNodeCanvas(400, 400);
+        const ctx = canvas.getContext('2d');
+        ctx.fillStyle = '#c00';
+        ctx.fillRect(0, 0, 400, 400);
+        ctx.fillStyle = '#36c';
+        ctx.fillRect(0, 40, 400, 320);
+
+        const restored = await loadNodeImage(await restoreResolution(canvas.toDataURL('image/png'), { width: 800, height: 600 }));
+        const out = createNodeCanvas(800, 600);
+        const outCtx = out.getContext('2d');
+        outCtx.drawImage(restored, 0, 0);
+        const [r, , b] = outCtx.getImageData(400, 2, 1, 1).data;
+        expect(r).toBeLessThan(b);
+    });
+});
@@ -0,0 +1,109 @@
+import type { FileInfo } from '../types';
+import { CompositingError, ConfigurationError } from './errors';
+import { getOutputCrop, type Size } from './composition';
+import { createCanvas, loadImage } from '../utils/image';
+
+/** Longest side, in pixels, of the images sent to the model for each kind of request. */
+export interface ImageSizeLimits {
+    extraction: number;
+    blend: number;
+}
+
+export const DEFAULT_SIZE_LIMITS: ImageSizeLimits = {
+    extraction: 1536,
+    blend: 2048,
+};
+
+const MIN_SIZE_LIMIT = 256;
+const JPEG_QUALITY = 0.92;
+
+const readLimit = (name: string, value: string | undefined, fallback: number): number => {
+    if (!value) return fallback;
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < MIN_SIZE_LIMIT) {
+        throw new ConfigurationError(`${name} must be a whole number of pixels, at least ${MIN_SIZE_LIMIT}. Got "${value}".`);
+    }
+    return limit;
+};
+
+export const getSizeLimits = (): ImageSizeLimits => ({
+    extraction: readLimit('MAX_EXTRACTION_SIZE', process.env.MAX_EXTRACTION_SIZE, DEFAULT_SIZE_LIMITS.extraction),
+    blend: readLimit('MAX_BLEND_SIZE', process.env.MAX_BLEND_SIZE, DEFAULT_SIZE_LIMITS.blend),
+});
+
+export interface PreparedImage {
+    /** What to send: the input itself when it already fits. */
+    file: FileInfo;
+    /** Sent size divided by original size; 1 when nothing was resized. */
+    scale: number;
+    original: { width: number; height: number };
+}
+
+/**
+ * Shrinks by halves before the last step. A single large drawImage step
+ * samples too few source pixels and aliases fine detail like grilles and badges.
+ */
+const downsample = (image: HTMLImageElement, width: number, height: number): HTMLCanvasElement => {
+    let source: CanvasImageSource = image;
+    let sourceWidth = image.naturalWidth;
+    let sourceHeight = image.naturalHeight;
+    while (sourceWidth / 2 >= width && sourceHeight / 2 >= height) {
+        const { canvas, ctx } = createCanvas(Math.round(sourceWidth / 2), Math.round(sourceHeight / 2));
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+        source = canvas;
+        sourceWidth = canvas.width;
+        sourceHeight = canvas.height;
+    }
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, width, height);
+    return canvas;
+};
+
+const encode = (canvas: HTMLCanvasElement, type: 'image/png' | 'image/jpeg'): string => {
+    try {
+        return canvas.toDataURL(type, JPEG_QUALITY);
+    } catch (e) {
+        throw new CompositingError(`Could not encode the resized image: ${e instanceof Error ? e.message : String(e)}`);
+    }
+};
+
+/**
+ * Fits an image within `maxSize` on its longest side for upload. Opaque
+ * photos go as JPEG to keep the payload small; cutouts need PNG for their alpha.
+ */
+export const prepareForModel = async (
+    file: FileInfo,
+    maxSize: number,
+    type: 'image/png' | 'image/jpeg',
+): Promise<PreparedImage> => {
+    const image = await loadImage(file.base64);
+    const original = { width: image.naturalWidth, height: image.naturalHeight };
+    const scale = Math.min(1, maxSize / Math.max(original.width, original.height));
+    if (scale === 1) return { file, scale, original };
+
+    const width = Math.max(1, Math.round(original.width * scale));
+    const height = Math.max(1, Math.round(original.height * scale));
+    const base64 = encode(downsample(image, width, height), type);
+    return {
+        file: { ...file, type, base64, size: Math.round((base64.length - base64.indexOf(',') - 1) * 0.75), width, height },
+        scale,
+        original,
+    };
+};
+
+/**
+ * Maps a model output back onto the original pixel size. The model keeps the
+ * framing but answers at its own resolution; if its aspect ratio differs too,
+ * the output is center-cropped to match rather than stretched.
+ */
+export const restoreResolution = async (src: string, size: Size): Promise<string> => {
+    const image = await loadImage(src);
+    if (image.naturalWidth === size.width && image.naturalHeight === size.height) return src;
+    const crop = getOutputCrop({ width: image.naturalWidth, height: image.naturalHeight }, size);
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, size.width, size.height);
+    return encode(canvas, 'image/png');
+};
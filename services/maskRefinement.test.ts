@@ -0,0 +1,43 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createCanvas as createNodeCanvas } from '@napi-rs/canvas';
+import { estimateAlignment } from './maskRefinement';
+import { loadImage, setCanvasBackend } from '../utils/image';
+import { nodeCanvasBackend } from '../node/canvasBackend';
+
+// The part of the photo the cutout shows, and the size the model returned it at.
+const CROP = { x: 180, y: 120, width: 520, height: 390 };
+const CUTOUT = { width: 200, height: 150 };
+
+let photo: HTMLImageElement;
+let cutout: HTMLImageElement;
+
+beforeAll(async () => {
+    setCanvasBackend(nodeCanvasBackend);
+    // A patchwork of colored blocks, so every position looks different.
+    const photoCanvas = createNodeCanvas(800, 600);
+    const ctx = photoCanvas.getContext('2d');
+    for (let y = 0; y < 600; y += 50) {
+        for (let x = 0; x < 800; x += 50) {
+            ctx.fillStyle = `rgb(${(x * 7 + y * 3) % 256}, ${(x * 5 + y * 11) % 256}, ${(x * 13 + y * 2) % 256})`;
+            ctx.fillRect(x, y, 50, 50);
+        }
+    }
+    photo = await loadImage(photoCanvas.toDataURL('image/png'));
+
+    const cutoutCanvas = createNodeCanvas(CUTOUT.width, CUTOUT.height);
+    cutoutCanvas.getContext('2d').drawImage(photoCanvas, CROP.x, CROP.y, CROP.width, CROP.height, 0, 0, CUTOUT.width, CUTOUT.height);
+    cutout = await loadImage(cutoutCanvas.toDataURL('image/png'));
+});
+
+afterAll(() => {
+    setCanvasBackend(null);
+});
+
+describe('estimateAlignment', () => {
+    it('finds where and how large the cutout sits in the photo', () => {
+        const alignment = estimateAlignment(cutout, photo);
+        expect(Math.abs(alignment.offsetX - CROP.x)).toBeLessThanOrEqual(10);
+        expect(Math.abs(alignment.offsetY - CROP.y)).toBeLessThanOrEqual(10);
+        expect(alignment.scale).toBeCloseTo(CROP.width / CUTOUT.width, 1);
+    });
+});
@@ -0,0 +1,315 @@
+import { createCanvas, getImageData } from '../utils/image';
+
+/**
+ * Where the cutout sits inside the original photo: cutout pixel (u, v) maps
+ * to original pixel (offsetX + u * scale, offsetY + v * scale).
+ */
+export interface Alignment {
+    offsetX: number;
+    offsetY: number;
+    scale: number;
+}
+
+export interface EdgeSettings {
+    /** Positive values grow the mask, negative values shrink it, in pixels. */
+    grow: number;
+    /** Blur radius applied to the mask edge, in pixels. */
+    feather: number;
+}
+
+export type BrushMode = 'restore' | 'erase' | 'glass';
+
+// The search runs on small copies: every scale and position at the coarse size,
+// then only the neighbourhood of the best few matches at the fine size.
+const ALIGN_COARSE_SIZE = 40;
+const ALIGN_SIZE = 160;
+const ALIGN_SCALE_STEPS = 16;
+const ALIGN_COARSE_SAMPLES = 100;
+const ALIGN_MAX_SAMPLES = 400;
+const ALIGN_REFINE_CANDIDATES = 3;
+
+interface Pixels {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+interface Match {
+    /** Mean color difference per sampled pixel. */
+    error: number;
+    x: number;
+    y: number;
+}
+
+/** Indices of the cutout's opaque pixels, thinned out to about `maxSamples`. */
+const opaqueSamples = (cut: Pixels, maxSamples: number): number[] => {
+    const opaque: number[] = [];
+    for (let i = 0; i < cut.width * cut.height; i++) {
+        if (cut.data[i * 4 + 3] > 200) opaque.push(i);
+    }
+    const stride = Math.max(1, Math.floor(opaque.length / maxSamples));
+    return opaque.filter((_, k) => k % stride === 0);
+};
+
+/**
+ * The position within the given ranges where the cutout's sampled pixels
+ * best match the photo, if any beats `bestError`.
+ */
+const matchPositions = (
+    orig: Pixels,
+    cut: Pixels,
+    samples: number[],
+    [minX, maxX]: [number, number],
+    [minY, maxY]: [number, number],
+    bestError: number = Infinity,
+): Match | null => {
+    let best: Match | null = null;
+    let bound = bestError;
+    for (let y = Math.max(0, minY); y <= Math.min(orig.height - cut.height, maxY); y++) {
+        for (let x = Math.max(0, minX); x <= Math.min(orig.width - cut.width, maxX); x++) {
+            // Stop summing as soon as this position can no longer win.
+            const budget = bound * samples.length;
+            let error = 0;
+            for (let s = 0; s < samples.length && error < budget; s++) {
+                const i = samples[s];
+                const o = ((y + Math.floor(i / cut.width)) * orig.width + x + (i % cut.width)) * 4;
+                const c = i * 4;
+                error += Math.abs(orig.data[o] - cut.data[c]) + Math.abs(orig.data[o + 1] - cut.data[c + 1]) + Math.abs(orig.data[o + 2] - cut.data[c + 2]);
+            }
+            if (error < budget) {
+                bound = error / samples.length;
+                best = { error: bound, x, y };
+            }
+        }
+    }
+    return best;
+};
+
+/**
+ * Estimates how the model's cropped cutout lines up with the original photo
+ * by comparing colors under the cutout's opaque pixels. A coarse pass tries
+ * every scale and position on tiny copies; the best few are then refined at
+ * a higher resolution, so large photos don't stall the UI. The result is a
+ * starting point the user can nudge.
+ */
+export const estimateAlignment = (cutout: HTMLImageElement, original: HTMLImageElement): Alignment => {
+    const longSide = Math.max(original.naturalWidth, original.naturalHeight);
+    // The largest scale at which the whole cutout still fits inside the photo.
+    const fitScale = Math.min(original.naturalWidth / cutout.naturalWidth, original.naturalHeight / cutout.naturalHeight);
+    const scaleAt = (step: number) => fitScale * (1 - (0.7 * step) / ALIGN_SCALE_STEPS);
+
+    const createLevel = (size: number, maxSamples: number) => {
+        const lowScale = size / longSide;
+        const width = Math.max(1, Math.round(original.naturalWidth * lowScale));
+        const height = Math.max(1, Math.round(original.naturalHeight * lowScale));
+        const orig = { data: getImageData(original, width, height).data, width, height };
+        const cuts = new Map<number, { cut: Pixels; samples: number[] } | null>();
+        // The cutout resampled for one scale step, or null if it doesn't fit or has no opaque pixels.
+        const cutAt = (step: number) => {
+            if (!cuts.has(step)) {
+                const cw = Math.max(1, Math.round(cutout.naturalWidth * scaleAt(step) * lowScale));
+                const ch = Math.max(1, Math.round(cutout.naturalHeight * scaleAt(step) * lowScale));
+                const cut = cw > width || ch > height ? null : { data: getImageData(cutout, cw, ch).data, width: cw, height: ch };
+                const samples = cut ? opaqueSamples(cut, maxSamples) : [];
+                cuts.set(step, cut && samples.length > 0 ? { cut, samples } : null);
+            }
+            return cuts.get(step)!;
+        };
+        return { lowScale, orig, cutAt };
+    };
+
+    const coarse = createLevel(ALIGN_COARSE_SIZE, ALIGN_COARSE_SAMPLES);
+    const candidates: (Match & { step: number })[] = [];
+    for (let step = 0; step < ALIGN_SCALE_STEPS; step++) {
+        const level = coarse.cutAt(step);
+        const match = level && matchPositions(coarse.orig, level.cut, level.samples, [0, Infinity], [0, Infinity]);
+        if (match) candidates.push({ ...match, step });
+    }
+    candidates.sort((a, b) => a.error - b.error);
+
+    const fine = createLevel(ALIGN_SIZE, ALIGN_MAX_SAMPLES);
+    const ratio = Math.ceil(ALIGN_SIZE / ALIGN_COARSE_SIZE);
+    let best = { error: Infinity, alignment: { offsetX: 0, offsetY: 0, scale: fitScale } };
+    for (const candidate of candidates.slice(0, ALIGN_REFINE_CANDIDATES)) {
+        const x = Math.round(candidate.x * fine.lowScale / coarse.lowScale);
+        const y = Math.round(candidate.y * fine.lowScale / coarse.lowScale);
+        for (let step = Math.max(0, candidate.step - 1); step <= Math.min(ALIGN_SCALE_STEPS - 1, candidate.step + 1); step++) {
+            const level = fine.cutAt(step);
+            const match = level && matchPositions(fine.orig, level.cut, level.samples, [x - ratio, x + ratio], [y - ratio, y + ratio], best.error);
+            if (match) {
+                best = { error: match.error, alignment: { offsetX: match.x / fine.lowScale, offsetY: match.y / fine.lowScale, scale: scaleAt(step) } };
+            }
+        }
+    }
+
+    return best.alignment;
+};
+
+export const extractAlpha = (imageData: ImageData): Uint8ClampedArray => {
+    const alpha = new Uint8ClampedArray(imageData.width * imageData.height);
+    for (let i = 0; i < alpha.length; i++) {
+        alpha[i] = imageData.data[i * 4 + 3];
+    }
+    return alpha;
+};
+
+/** Separable min/max filter: max grows the mask, min shrinks it. */
+const morph = (alpha: Uint8ClampedArray, width: number, height: number, radius: number, pick: (a: number, b: number) => number) => {
+    const temp = new Uint8ClampedArray(alpha.length);
+    const out = new Uint8ClampedArray(alpha.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let value = alpha[y * width + x];
+            for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) {
+                value = pick(value, alpha[y * width + k]);
+            }
+            temp[y * width + x] = value;
+        }
+    }
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let value = temp[y * width + x];
+            for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++) {
+                value = pick(value, temp[k * width + x]);
+            }
+            out[y * width + x] = value;
+        }
+    }
+    return out;
+};
+
+/** Three box-blur passes, a cheap approximation of a Gaussian. */
+const feather = (alpha: Uint8ClampedArray, width: number, height: number, radius: number) => {
+    let current = alpha;
+    for (let pass = 0; pass < 3; pass++) {
+        const temp = new Float32Array(current.length);
+        const out = new Uint8ClampedArray(current.length);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let sum = 0;
+                let n = 0;
+                for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) {
+                    sum += current[y * width + k];
+                    n++;
+                }
+                temp[y * width + x] = sum / n;
+            }
+        }
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let sum = 0;
+                let n = 0;
+                for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++) {
+                    sum += temp[k * width + x];
+                    n++;
+                }
+                out[y * width + x] = sum / n;
+            }
+        }
+        current = out;
+    }
+    return current;
+};
+
+export const applyEdgeSettings = (
+    alpha: Uint8ClampedArray,
+    width: number,
+    height: number,
+    { grow, feather: featherRadius }: EdgeSettings,
+): Uint8ClampedArray => {
+    let result = alpha;
+    if (grow > 0) result = morph(result, width, height, Math.round(grow), Math.max);
+    if (grow < 0) result = morph(result, width, height, Math.round(-grow), Math.min);
+    if (featherRadius > 0) result = feather(result, width, height, Math.max(1, Math.round(featherRadius / 2)));
+    return result;
+};
+
+/**
+ * Paints a round brush stroke segment into the mask. Restore makes pixels
+ * fully opaque, erase clears them and glass sets them to `glassAlpha`.
+ */
+export const paintStroke = (
+    alpha: Uint8ClampedArray,
+    width: number,
+    height: number,
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    radius: number,
+    mode: BrushMode,
+    glassAlpha: number,
+) => {
+    const value = mode === 'restore' ? 255 : mode === 'erase' ? 0 : glassAlpha;
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    const steps = Math.max(1, Math.ceil(distance / Math.max(1, radius / 3)));
+
+    for (let step = 0; step <= steps; step++) {
+        const cx = from.x + ((to.x - from.x) * step) / steps;
+        const cy = from.y + ((to.y - from.y) * step) / steps;
+        for (let y = Math.max(0, Math.floor(cy - radius)); y <= Math.min(height - 1, Math.ceil(cy + radius)); y++) {
+            for (let x = Math.max(0, Math.floor(cx - radius)); x <= Math.min(width - 1, Math.ceil(cx + radius)); x++) {
+                if ((x - cx) ** 2 + (y - cy) ** 2 <= radius * radius) {
+                    alpha[y * width + x] = value;
+                }
+            }
+        }
+    }
+};
+
+/**
+ * Builds the color layer the mask is applied to: the original photo aligned
+ * under the cutout, with the cutout's own pixels on top. Restored areas then
+ * show real photo content rather than whatever the model left behind.
+ */
+export const buildColorSource = (
+    cutout: HTMLImageElement,
+    original: HTMLImageElement | null,
+    alignment: Alignment,
+    padding: number,
+): ImageData => {
+    const width = cutout.naturalWidth + padding * 2;
+    const height = cutout.naturalHeight + padding * 2;
+    const { ctx } = createCanvas(width, height);
+    if (original) {
+        ctx.drawImage(
+            original,
+            padding - alignment.offsetX / alignment.scale,
+            padding - alignment.offsetY / alignment.scale,
+            original.naturalWidth / alignment.scale,
+            original.naturalHeight / alignment.scale,
+        );
+    }
+    ctx.drawImage(cutout, padding, padding);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+export const composeMaskedImage = (color: ImageData, alpha: Uint8ClampedArray): ImageData => {
+    const out = new ImageData(new Uint8ClampedArray(color.data), color.width, color.height);
+    for (let i = 0; i < alpha.length; i++) {
+        out.data[i * 4 + 3] = alpha[i];
+    }
+    return out;
+};
+
+/** Bounding box of pixels with alpha above `threshold`, or null if none. */
+export const getAlphaBounds = (alpha: Uint8ClampedArray, width: number, height: number, threshold: number = 0) => {
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (alpha[y * width + x] > threshold) {
+                if (x < minX) minX = x;
+                if (x > maxX) maxX = x;
+                if (y < minY) minY = y;
+                if (y > maxY) maxY = y;
+            }
+        }
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+export const cropImageData = (imageData: ImageData, bounds: { x: number; y: number; width: number; height: number }): ImageData => {
+    const { canvas, ctx } = createCanvas(imageData.width, imageData.height);
+    ctx.putImageData(imageData, 0, 0);
+    const cropped = createCanvas(bounds.width, bounds.height);
+    cropped.ctx.drawImage(canvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+    return cropped.ctx.getImageData(0, 0, bounds.width, bounds.height);
+};
@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createCanvas as createNodeCanvas } from '@napi-rs/canvas';
+import { renderVehicleRegion } from './merge';
+import type { VehicleDraw } from './compositor';
+import { loadImage, setCanvasBackend } from '../utils/image';
+import { nodeCanvasBackend } from '../node/canvasBackend';
+
+const BACKGROUND = { width: 1000, height: 1000 };
+const GRID = 100;
+
+let vehicleImage: HTMLImageElement;
+
+beforeAll(async () => {
+    setCanvasBackend(nodeCanvasBackend);
+    const canvas = createNodeCanvas(400, 100);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#c00';
+    ctx.fillRect(0, 0, 400, 100);
+    vehicleImage = await loadImage(canvas.toDataURL('image/png'));
+});
+
+afterAll(() => {
+    setCanvasBackend(null);
+});
+
+// A 400x100 vehicle centered on the background.
+const draw = (rotation: number): VehicleDraw => ({
+    image: vehicleImage,
+    centerX: 500,
+    centerY: 500,
+    width: 400,
+    height: 100,
+    rotation,
+    flipX: false,
+});
+
+// The region's alpha at a point given in background pixels.
+const alphaAt = (region: Uint8ClampedArray, x: number, y: number) =>
+    region[Math.floor(y / (BACKGROUND.height / GRID)) * GRID + Math.floor(x / (BACKGROUND.width / GRID))];
+
+describe('renderVehicleRegion', () => {
+    it('covers the vehicle and the ground beneath it', () => {
+        const region = renderVehicleRegion([draw(0)], BACKGROUND, GRID, GRID);
+        expect(alphaAt(region, 500, 500)).toBe(255);
+        // The footprint spreads wider than the car, just under its wheels.
+        expect(alphaAt(region, 250, 560)).toBeGreaterThan(0);
+        expect(alphaAt(region, 500, 50)).toBe(0);
+    });
+
+    it('turns the ground footprint with the vehicle', () => {
+        // Rotated a quarter turn, the car stands upright and its wheels face left.
+        const region = renderVehicleRegion([draw(90)], BACKGROUND, GRID, GRID);
+        expect(alphaAt(region, 500, 400)).toBe(255);
+        expect(alphaAt(region, 250, 560)).toBe(0);
+        expect(alphaAt(region, 750, 560)).toBe(0);
+    });
+});
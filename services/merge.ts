@@ -0,0 +1,88 @@
+import { drawVehicles, type VehicleDraw } from './compositor';
+import { CompositingError } from './errors';
+import { getOutputCrop } from './composition';
+import { applyEdgeSettings, extractAlpha } from './maskRefinement';
+import { createCanvas, loadImage } from '../utils/image';
+
+// Region masks are built at this size and scaled up; the mask is soft, so detail isn't lost.
+const MASK_SIZE = 512;
+// Margin around the vehicles for the shadow and contact area, and the width of the fade,
+// as fractions of the region grid's longer side.
+const REGION_MARGIN = 0.05;
+const REGION_FEATHER = 0.03;
+
+/**
+ * The area around the vehicles that is taken from the model: their
+ * silhouettes plus a ground footprint under each one, grown and feathered.
+ * Returns one alpha value per pixel of a `width` x `height` grid covering the
+ * background. Drift analysis excludes the same area, so the merge seam never
+ * counts as drift.
+ */
+export const renderVehicleRegion = (
+    draws: VehicleDraw[],
+    background: { width: number; height: number },
+    width: number,
+    height: number,
+): Uint8ClampedArray => {
+    const { ctx } = createCanvas(width, height);
+    ctx.scale(width / background.width, height / background.height);
+    drawVehicles(ctx, draws);
+    // The contact shadow lands under the wheels, just outside the silhouette, and turns with the vehicle.
+    ctx.fillStyle = '#000';
+    for (const draw of draws) {
+        ctx.save();
+        ctx.translate(draw.centerX, draw.centerY);
+        ctx.rotate((draw.rotation * Math.PI) / 180);
+        ctx.beginPath();
+        ctx.ellipse(0, draw.height / 2, draw.width * 0.65, draw.height * 0.25, 0, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.restore();
+    }
+
+    const longSide = Math.max(width, height);
+    return applyEdgeSettings(extractAlpha(ctx.getImageData(0, 0, width, height)), width, height, {
+        grow: longSide * REGION_MARGIN,
+        feather: longSide * REGION_FEATHER,
+    });
+};
+
+/**
+ * Keeps the model's work only around the vehicles: the output is resized to
+ * the original background and laid over it through a soft region mask, so
+ * signage, sky and the rest of the scene stay pixel-identical.
+ */
+export const mergeIntoBackground = async (
+    backgroundSrc: string,
+    resultSrc: string,
+    draws: VehicleDraw[],
+): Promise<string> => {
+    const [backgroundImg, resultImg] = await Promise.all([loadImage(backgroundSrc), loadImage(resultSrc)]);
+    const background = { width: backgroundImg.naturalWidth, height: backgroundImg.naturalHeight };
+
+    const factor = Math.min(1, MASK_SIZE / Math.max(background.width, background.height));
+    const maskWidth = Math.max(1, Math.round(background.width * factor));
+    const maskHeight = Math.max(1, Math.round(background.height * factor));
+    const region = renderVehicleRegion(draws, background, maskWidth, maskHeight);
+    const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(maskWidth, maskHeight);
+    const maskData = maskCtx.createImageData(maskWidth, maskHeight);
+    for (let p = 0; p < region.length; p++) maskData.data[p * 4 + 3] = region[p];
+    maskCtx.putImageData(maskData, 0, 0);
+
+    // The model may answer at its own resolution but keeps the framing, so a resample
+    // realigns it; a different aspect ratio is cropped to match instead of stretched.
+    const crop = getOutputCrop({ width: resultImg.naturalWidth, height: resultImg.naturalHeight }, background);
+    const { canvas: patchCanvas, ctx: patchCtx } = createCanvas(background.width, background.height);
+    patchCtx.drawImage(resultImg, crop.x, crop.y, crop.width, crop.height, 0, 0, background.width, background.height);
+    patchCtx.globalCompositeOperation = 'destination-in';
+    patchCtx.imageSmoothingQuality = 'high';
+    patchCtx.drawImage(maskCanvas, 0, 0, background.width, background.height);
+
+    const { canvas, ctx } = createCanvas(background.width, background.height);
+    ctx.drawImage(backgroundImg, 0, 0);
+    ctx.drawImage(patchCanvas, 0, 0);
+    try {
+        return canvas.toDataURL('image/png');
+    } catch (e) {
+        throw new CompositingError(`Could not encode the merged image: ${e instanceof Error ? e.message : String(e)}`);
+    }
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { NormalizedPlacement } from '../types';
+import {
+    calibrateFromPlacement,
+    DEFAULT_CALIBRATION,
+    getContactY,
+    getFootprintTilt,
+    rescaleForDepth,
+    suggestScale,
+    type SceneCalibration,
+} from './perspective';
+
+// Horizon at 40%; a vehicle touching the ground at 90% is 45% of the frame wide.
+const calibration: SceneCalibration = DEFAULT_CALIBRATION;
+const ASPECT = 0.5;
+
+const placement = (changes: Partial<NormalizedPlacement> = {}): NormalizedPlacement => ({
+    x: 0.5,
+    y: 0.6,
+    scale: 0.3,
+    rotation: 0,
+    flipX: false,
+    ...changes,
+});
+
+describe('suggestScale', () => {
+    it('sizes the vehicle for where its wheels touch the ground', () => {
+        const scale = suggestScale(0.7, ASPECT, calibration);
+        const contactY = getContactY(placement({ y: 0.7, scale }), ASPECT);
+        // Width grows linearly with distance below the horizon: 0.45 per 0.5.
+        expect(scale).toBeCloseTo(0.9 * (contactY - calibration.horizonY));
+        expect(scale).toBeCloseTo(0.348, 3);
+    });
+
+    it('matches the reference size at the reference depth', () => {
+        const scale = suggestScale(calibration.referenceY - (calibration.referenceScale * ASPECT) / 2, ASPECT, calibration);
+        expect(scale).toBeCloseTo(calibration.referenceScale);
+    });
+
+    it('caps the size when taller vehicles have no finite solution', () => {
+        // With this aspect, growing the vehicle lowers its wheels faster than the size catches up.
+        expect(suggestScale(0.7, 3, calibration)).toBe(2);
+    });
+
+    it('keeps a small positive size for vehicles centered above the horizon', () => {
+        expect(suggestScale(0.2, ASPECT, calibration)).toBe(0.02);
+        expect(suggestScale(calibration.horizonY, ASPECT, calibration)).toBeGreaterThan(0);
+    });
+});
+
+describe('rescaleForDepth', () => {
+    it('keeps a manual size adjustment while applying the change in depth', () => {
+        const from = suggestScale(0.7, ASPECT, calibration);
+        const to = suggestScale(0.5, ASPECT, calibration);
+        expect(rescaleForDepth(0.5, 0.7, 0.5, ASPECT, calibration)).toBeCloseTo(0.5 * (to / from));
+        expect(rescaleForDepth(0.3, 0.7, 0.7, ASPECT, calibration)).toBeCloseTo(0.3);
+    });
+});
+
+describe('calibrateFromPlacement', () => {
+    it('makes a placed vehicle the size reference', () => {
+        const next = calibrateFromPlacement(placement(), ASPECT, calibration);
+        expect(next).toEqual({ ...calibration, referenceY: expect.closeTo(0.675), referenceScale: 0.3 });
+        expect(suggestScale(0.6, ASPECT, next)).toBeCloseTo(0.3);
+    });
+
+    it('keeps the reference below the horizon for a vehicle placed above it', () => {
+        const next = calibrateFromPlacement(placement({ y: 0.1, scale: 0.1 }), ASPECT, calibration);
+        expect(next.referenceY).toBeCloseTo(calibration.horizonY + 0.01);
+        expect(suggestScale(0.7, ASPECT, next)).toBeGreaterThan(0);
+    });
+});
+
+describe('getFootprintTilt', () => {
+    it('opens up from nearly edge-on at the horizon to the bottom of the frame', () => {
+        expect(getFootprintTilt(0.4, 0.4)).toBe(75);
+        expect(getFootprintTilt(0.7, 0.4)).toBeCloseTo(47.5);
+        expect(getFootprintTilt(1, 0.4)).toBe(20);
+    });
+
+    it('stays within that range off the ground plane', () => {
+        expect(getFootprintTilt(0.1, 0.4)).toBe(75);
+        expect(getFootprintTilt(1.2, 0.4)).toBe(20);
+        expect(getFootprintTilt(0.5, 1)).toBe(75);
+    });
+});
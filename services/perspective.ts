@@ -0,0 +1,81 @@
+import type { NormalizedPlacement } from '../types';
+
+/**
+ * A per-background ground-plane model, in fractions of the background size.
+ * `referenceY`/`referenceScale` pair a ground-contact height with the vehicle
+ * width expected there; together with the horizon they fix how size falls
+ * off with distance.
+ */
+export interface SceneCalibration {
+    horizonY: number;
+    vanishingX: number;
+    referenceY: number;
+    referenceScale: number;
+}
+
+export const DEFAULT_CALIBRATION: SceneCalibration = {
+    horizonY: 0.4,
+    vanishingX: 0.5,
+    referenceY: 0.9,
+    referenceScale: 0.45,
+};
+
+const MIN_SCALE = 0.02;
+const MAX_SCALE = 2;
+// Keeps contact points on or above the horizon from producing zero or negative sizes.
+const MIN_DEPTH = 0.01;
+
+// Footprint tilt, carried over from ImageDisplay's ground-plane overlay.
+const FAR_TILT_DEG = 75;
+const NEAR_TILT_DEG = 20;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * The vehicle's height in background-height units per unit of `scale`, so
+ * that `scale * aspect / 2` is the distance from its center to its wheels.
+ */
+export const getPlacementAspect = (vehicle: { width: number; height: number }, background: { width: number; height: number }) =>
+    (vehicle.height / vehicle.width) * (background.width / background.height);
+
+export const getContactY = (placement: NormalizedPlacement, aspect: number) => placement.y + (placement.scale * aspect) / 2;
+
+/** Width gained per unit of distance below the horizon. */
+const sizeSlope = (calibration: SceneCalibration) =>
+    calibration.referenceScale / Math.max(calibration.referenceY - calibration.horizonY, MIN_DEPTH);
+
+/**
+ * Suggests a width for a vehicle centered at `centerY`. On a flat ground plane
+ * apparent size grows linearly with how far the contact point sits below the
+ * horizon; since the contact point itself depends on the size, this solves
+ * `scale = slope * (centerY + scale * aspect / 2 - horizonY)` for `scale`.
+ */
+export const suggestScale = (centerY: number, aspect: number, calibration: SceneCalibration): number => {
+    const slope = sizeSlope(calibration);
+    const denominator = 1 - (slope * aspect) / 2;
+    if (denominator <= 0) return MAX_SCALE;
+    return clamp((slope * Math.max(centerY - calibration.horizonY, MIN_DEPTH)) / denominator, MIN_SCALE, MAX_SCALE);
+};
+
+/**
+ * Rescales a vehicle moved from `fromY` to `toY` by the ratio of the suggested
+ * sizes, so a manual size adjustment is kept while depth is applied.
+ */
+export const rescaleForDepth = (scale: number, fromY: number, toY: number, aspect: number, calibration: SceneCalibration) =>
+    clamp(scale * (suggestScale(toY, aspect, calibration) / suggestScale(fromY, aspect, calibration)), MIN_SCALE, MAX_SCALE);
+
+/** Makes a placed vehicle the size reference, keeping the horizon and vanishing point. */
+export const calibrateFromPlacement = (placement: NormalizedPlacement, aspect: number, calibration: SceneCalibration): SceneCalibration => ({
+    ...calibration,
+    referenceY: Math.max(getContactY(placement, aspect), calibration.horizonY + MIN_DEPTH),
+    referenceScale: placement.scale,
+});
+
+/**
+ * How far to tip a ground-plane footprint at `y`: nearly edge-on at the
+ * horizon, opening up toward the bottom of the frame.
+ */
+export const getFootprintTilt = (y: number, horizonY: number) => {
+    const depth = clamp((y - horizonY) / Math.max(1 - horizonY, MIN_DEPTH), 0, 1);
+    return FAR_TILT_DEG - (FAR_TILT_DEG - NEAR_TILT_DEG) * depth;
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { ExtractedVehicle, FileInfo, GenerationEntry, VehicleLayer } from '../types';
+import { createProjectFile, parseProjectFile, PROJECT_VERSION, type ProjectSession } from './project';
+import { DEFAULT_BLEND_OPTIONS } from './blendOptions';
+import { DEFAULT_DRIFT_THRESHOLD } from './fidelity';
+
+const image = (name: string): FileInfo => ({ name, type: 'image/png', size: 4, base64: 'data:image/png;base64,AAAA', width: 800, height: 600 });
+
+const vehicle: ExtractedVehicle = {
+    id: 'vehicle-1',
+    name: 'car.png',
+    src: 'data:image/png;base64,AAAA',
+    width: 400,
+    height: 200,
+    variants: [{ id: 'variant-1', direction: null, src: 'data:image/png;base64,AAAA', width: 400, height: 200 }],
+    activeVariantId: 'variant-1',
+};
+
+const layer: VehicleLayer = {
+    id: 'layer-1',
+    vehicleId: 'vehicle-1',
+    zIndex: 1,
+    placement: { x: 0.5, y: 0.7, scale: 0.3, rotation: -4, flipX: true },
+};
+
+const entry: GenerationEntry = {
+    id: 'generation-1',
+    src: 'data:image/png;base64,AAAA',
+    blendOptions: DEFAULT_BLEND_OPTIONS,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    layers: [layer],
+    variantIds: { 'vehicle-1': 'variant-1' },
+    favorite: true,
+    drift: 1.5,
+};
+
+const session: ProjectSession = {
+    subjectVehicle: image('car.png'),
+    backgroundScene: image('lot.jpg'),
+    vehicles: [vehicle],
+    layers: [layer],
+    history: [entry],
+    activeEntryId: entry.id,
+    blendOptions: DEFAULT_BLEND_OPTIONS,
+    calibration: { horizonY: 0.4, vanishingX: 0.5, referenceY: 0.8, referenceScale: 0.3 },
+    driftThreshold: 5,
+};
+
+// A saved project with one part replaced, as a corrupt or hand-edited file would have it.
+const withChanges = (changes: Record<string, unknown>) => ({ ...createProjectFile(session), ...changes });
+
+describe('parseProjectFile', () => {
+    it('round-trips a saved session through JSON', () => {
+        const parsed = parseProjectFile(JSON.stringify(createProjectFile(session)));
+        expect(parsed.version).toBe(PROJECT_VERSION);
+        expect(parsed.vehicles).toEqual([vehicle]);
+        expect(parsed.layers).toEqual([layer]);
+        expect(parsed.history).toEqual([entry]);
+        expect(parsed.activeEntryId).toBe(entry.id);
+        expect(parsed.calibration).toEqual(session.calibration);
+        expect(parsed.driftThreshold).toBe(5);
+    });
+
+    it('rejects files that are not projects', () => {
+        expect(() => parseProjectFile('{')).toThrow('not valid JSON');
+        expect(() => parseProjectFile({ format: 'something-else' })).toThrow('not a vehicle background swap project');
+    });
+
+    it('rejects other format versions', () => {
+        expect(() => parseProjectFile(withChanges({ version: PROJECT_VERSION + 1 }))).toThrow('Unsupported project version');
+    });
+
+    it.each([
+        ['a NaN position', { x: NaN }],
+        ['an infinite scale', { scale: Infinity }],
+        ['a zero scale', { scale: 0 }],
+        ['a string rotation', { rotation: '45' }],
+        ['a non-boolean flip', { flipX: 'yes' }],
+        ['a missing coordinate', { y: undefined }],
+    ])('rejects a layer with %s', (_, change) => {
+        const broken = { ...layer, placement: { ...layer.placement, ...change } };
+        expect(() => parseProjectFile(withChanges({ layers: [broken] }))).toThrow('invalid placement data');
+    });
+
+    it('rejects layers with a non-numeric stacking order', () => {
+        expect(() => parseProjectFile(withChanges({ layers: [{ ...layer, zIndex: '1' }] }))).toThrow('invalid placement data');
+    });
+
+    it.each([
+        ['a NaN width', { width: NaN }],
+        ['a string height', { height: '200' }],
+        ['a negative width', { width: -1 }],
+        ['a broken variant', { variants: [{ ...vehicle.variants![0], height: null }] }],
+    ])('rejects a vehicle with %s', (_, change) => {
+        expect(() => parseProjectFile(withChanges({ vehicles: [{ ...vehicle, ...change }] }))).toThrow('invalid vehicle data');
+    });
+
+    it('rejects input images with unusable sizes', () => {
+        expect(() => parseProjectFile(withChanges({ backgroundScene: { ...image('lot.jpg'), width: NaN } }))).toThrow('invalid input image');
+    });
+
+    it('drops results whose layers are damaged and keeps the rest', () => {
+        const damaged = { ...entry, id: 'generation-2', layers: [{ ...layer, placement: { ...layer.placement, x: 'left' } }] };
+        const parsed = parseProjectFile(withChanges({ history: [entry, damaged], activeEntryId: damaged.id }));
+        expect(parsed.history.map(e => e.id)).toEqual([entry.id]);
+        expect(parsed.activeEntryId).toBeNull();
+    });
+
+    it('falls back to defaults for unusable settings', () => {
+        const parsed = parseProjectFile(withChanges({
+            calibration: { horizonY: NaN, vanishingX: 0.5, referenceY: 0.8, referenceScale: 0.3 },
+            driftThreshold: Infinity,
+            blendOptions: 'strong',
+        }));
+        expect(parsed.calibration).toBeNull();
+        expect(parsed.driftThreshold).toBe(DEFAULT_DRIFT_THRESHOLD);
+        expect(parsed.blendOptions).toEqual(DEFAULT_BLEND_OPTIONS);
+    });
+});
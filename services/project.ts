@@ -0,0 +1,163 @@
+import type { BlendOptions, ExtractedVehicle, FileInfo, GenerationEntry, NormalizedPlacement, VehicleLayer } from '../types';
+import type { SceneCalibration } from './perspective';
+import { normalizeBlendOptions } from './blendOptions';
+import { DEFAULT_DRIFT_THRESHOLD } from './fidelity';
+import { InvalidInputError } from './errors';
+import { idbDelete, idbGet, idbPut, STORES } from '../utils/indexedDb';
+import { isObject } from '../utils/guards';
+
+export const PROJECT_FORMAT = 'vehicle-background-swap-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.vbswap.json';
+
+const AUTOSAVE_KEY = 'autosave';
+
+export interface ProjectSession {
+    subjectVehicle: FileInfo | null;
+    backgroundScene: FileInfo | null;
+    vehicles: ExtractedVehicle[];
+    layers: VehicleLayer[];
+    /** Generations for the current background, oldest first. */
+    history: GenerationEntry[];
+    activeEntryId: string | null;
+    /** The blend settings currently in the panel, which may differ from the result's. */
+    blendOptions: BlendOptions;
+    /** The background's perspective calibration, if the user set one. */
+    calibration?: SceneCalibration | null;
+    /** Background drift percentage above which results are flagged. */
+    driftThreshold?: number;
+}
+
+/**
+ * The portable project file: a JSON manifest with every image embedded as a
+ * data URL, so one file carries the whole session including paid-for
+ * extraction and generation results.
+ */
+export interface ProjectFile extends ProjectSession {
+    format: typeof PROJECT_FORMAT;
+    version: typeof PROJECT_VERSION;
+    savedAt: string;
+}
+
+export const createProjectFile = (session: ProjectSession): ProjectFile => ({
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    ...session,
+});
+
+// Everything below ends up in canvas math, where NaN or a string fails silently.
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPositive = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+const isFileInfo = (value: unknown): value is FileInfo =>
+    isObject(value) && typeof value.name === 'string' && typeof value.base64 === 'string' && value.base64.startsWith('data:')
+    && (value.width === undefined || isPositive(value.width))
+    && (value.height === undefined || isPositive(value.height));
+
+const isOptionalFileInfo = (value: unknown): value is FileInfo | null => value === null || isFileInfo(value);
+
+const isCalibration = (value: unknown): value is SceneCalibration =>
+    isObject(value) && ['horizonY', 'vanishingX', 'referenceY', 'referenceScale'].every(key => isFiniteNumber(value[key]));
+
+// Vehicles and their angle variants: an image with its pixel size.
+const isImage = (value: unknown): value is Record<string, unknown> =>
+    isObject(value) && typeof value.id === 'string' && typeof value.src === 'string' && isPositive(value.width) && isPositive(value.height);
+
+const isVehicle = (value: unknown): value is ExtractedVehicle =>
+    isImage(value) && (value.variants === undefined || (Array.isArray(value.variants) && value.variants.every(isImage)));
+
+const isPlacement = (value: unknown): value is NormalizedPlacement =>
+    isObject(value)
+    && ['x', 'y', 'rotation'].every(key => isFiniteNumber(value[key]))
+    && isPositive(value.scale)
+    && typeof value.flipX === 'boolean';
+
+const isLayer = (value: unknown): value is VehicleLayer =>
+    isObject(value) && typeof value.id === 'string' && typeof value.vehicleId === 'string'
+    && isFiniteNumber(value.zIndex) && isPlacement(value.placement);
+
+// A result needs its image and layers; its other fields are read leniently.
+const isEntry = (value: unknown): value is Record<string, unknown> & Pick<GenerationEntry, 'id' | 'src' | 'layers'> =>
+    isObject(value) && typeof value.id === 'string' && typeof value.src === 'string'
+    && Array.isArray(value.layers) && value.layers.every(isLayer);
+
+const isVariantIds = (value: unknown): value is Record<string, string> =>
+    isObject(value) && Object.values(value).every(id => typeof id === 'string');
+
+export const parseProjectFile = (input: string | unknown): ProjectFile => {
+    let raw: unknown = input;
+    if (typeof input === 'string') {
+        try {
+            raw = JSON.parse(input);
+        } catch {
+            throw new InvalidInputError("The project file is not valid JSON.");
+        }
+    }
+
+    if (!isObject(raw) || raw.format !== PROJECT_FORMAT) {
+        throw new InvalidInputError("This is not a vehicle background swap project file.");
+    }
+
+    // Add a migration here when the format changes; until then, other versions are rejected.
+    if (raw.version !== PROJECT_VERSION) {
+        throw new InvalidInputError(`Unsupported project version: ${raw.version}.`);
+    }
+
+    const { subjectVehicle, backgroundScene, vehicles, layers, history, activeEntryId, blendOptions, calibration, driftThreshold } = raw;
+
+    if (!isOptionalFileInfo(subjectVehicle) || !isOptionalFileInfo(backgroundScene)) {
+        throw new InvalidInputError("The project file has an invalid input image.");
+    }
+    if (!Array.isArray(vehicles) || !vehicles.every(isVehicle)) {
+        throw new InvalidInputError("The project file has invalid vehicle data.");
+    }
+    if (!Array.isArray(layers) || !layers.every(isLayer)) {
+        throw new InvalidInputError("The project file has invalid placement data.");
+    }
+
+    // A damaged result is dropped rather than failing the whole project; re-running it would need its layers.
+    const entries: GenerationEntry[] = (Array.isArray(history) ? history : [])
+        .filter(isEntry)
+        .map(entry => ({
+            id: entry.id,
+            src: entry.src,
+            blendOptions: normalizeBlendOptions(entry.blendOptions),
+            createdAt: typeof entry.createdAt === 'string' ? entry.createdAt : new Date().toISOString(),
+            layers: entry.layers,
+            variantIds: isVariantIds(entry.variantIds) ? entry.variantIds : {},
+            favorite: entry.favorite === true,
+            drift: isFiniteNumber(entry.drift) ? entry.drift : undefined,
+        }));
+
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date().toISOString(),
+        subjectVehicle,
+        backgroundScene,
+        vehicles,
+        layers,
+        history: entries,
+        activeEntryId: typeof activeEntryId === 'string' && entries.some(entry => entry.id === activeEntryId) ? activeEntryId : null,
+        blendOptions: normalizeBlendOptions(blendOptions),
+        calibration: isCalibration(calibration) ? calibration : null,
+        driftThreshold: isFiniteNumber(driftThreshold) && driftThreshold >= 0 ? driftThreshold : DEFAULT_DRIFT_THRESHOLD,
+    };
+};
+
+export const saveAutosave = (project: ProjectFile): Promise<void> => idbPut(STORES.projects, AUTOSAVE_KEY, project);
+
+export const loadAutosave = async (): Promise<ProjectFile | null> => {
+    const stored = await idbGet<unknown>(STORES.projects, AUTOSAVE_KEY);
+    if (!stored) return null;
+    try {
+        return parseProjectFile(stored);
+    } catch (e) {
+        console.warn("Discarding unreadable autosave.", e);
+        return null;
+    }
+};
+
+export const clearAutosave = (): Promise<void> => idbDelete(STORES.projects, AUTOSAVE_KEY);
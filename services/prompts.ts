@@ -0,0 +1,103 @@
+import { VehicleDirection, type BlendOptions, type SceneModifier, type ShadowDirection } from '../types';
+
+export const EXTRACTION_PROMPT = `
+**TASK: PRECISION VEHICLE EXTRACTION**
+
+Your task is to perform a clean and precise extraction of the main vehicle from the provided image.
+
+**INSTRUCTIONS:**
+1.  **IDENTIFY:** Accurately identify the primary subject vehicle in the image.
+2.  **MASK:** Create a highly detailed mask that perfectly outlines the vehicle, including windows and gaps between spokes on the wheels. Exclude everything else (background, ground, other objects, shadows).
+3.  **REMOVE BACKGROUND:** Use the mask to completely remove the background, making it 100% transparent.
+4.  **CROP TIGHTLY:** Crop the resulting image so that the image dimensions are as small as possible while still containing the entire vehicle. There should be minimal transparent padding around the vehicle. The vehicle should be the only thing in the image.
+
+The final output **MUST** be a PNG image of **ONLY** the vehicle on a fully transparent background, cropped to its bounds.
+`;
+
+const describeStrength = (value: number) => value < 0.34 ? 'subtle' : value < 0.67 ? 'moderate' : 'strong';
+
+const describeSoftness = (value: number) => value < 0.34 ? 'crisp, hard-edged' : value < 0.67 ? 'soft' : 'very soft, diffuse';
+
+const SHADOW_DIRECTION_TEXT: Record<ShadowDirection, string> = {
+    'auto': 'consistent with the direction of the scene\'s main light source',
+    'left': 'falling to the left of the vehicle',
+    'right': 'falling to the right of the vehicle',
+    'toward-camera': 'falling toward the camera, in front of the vehicle',
+    'away-from-camera': 'falling away from the camera, behind the vehicle',
+};
+
+const SCENE_MODIFIER_TEXT: Record<SceneModifier, string> = {
+    'wet-road': 'Make the road surface wet after rain, with puddles and a reflection of the vehicle on the ground.',
+    'dusk': 'Shift the whole scene to dusk: a low, warm sun, long shadows and a deepening sky.',
+    'night': 'Shift the whole scene to night, lit by street lights and other light sources already present in the scene.',
+    'overcast': 'Make the sky overcast, with flat, diffuse daylight and very soft shadows.',
+    'headlights-on': 'Turn the vehicle\'s headlights and tail lights on, with their light falling realistically on the ground around it.',
+};
+
+/**
+ * Builds the blend prompt from the user's options. The default options
+ * reproduce the original fixed prompt's intent.
+ */
+export const buildBlendPrompt = (options: BlendOptions) => {
+    const actions = [
+        options.colorMatch.enabled
+            ? `- **APPLY REALISTIC LIGHTING:** Adjust the lighting on the vehicle to match the direction, color, and intensity of the light sources in the background. Apply a ${describeStrength(options.colorMatch.strength)} color and contrast correction so the vehicle matches the scene's color grading.`
+            : '- **APPLY REALISTIC LIGHTING:** Adjust the direction of the lighting on the vehicle to match the scene, but keep the vehicle\'s own colors and contrast unchanged.',
+        options.shadow.enabled
+            && `- **CAST ACCURATE SHADOWS:** Generate a ${describeSoftness(options.shadow.softness)} realistic shadow on the ground beneath and around the vehicle, ${SHADOW_DIRECTION_TEXT[options.shadow.direction]}.`,
+        options.reflections.enabled
+            && `- **ADD ENVIRONMENT REFLECTIONS:** Apply ${describeStrength(options.reflections.strength)} reflections of the surrounding environment onto the vehicle's reflective surfaces (e.g., windows, paint, chrome).`,
+    ].filter(Boolean);
+
+    const restrictions = [
+        !options.shadow.enabled && '- Do **NOT** add any shadow under or around the vehicle.',
+        !options.reflections.enabled && '- Do **NOT** add environment reflections to the vehicle.',
+    ].filter(Boolean);
+
+    const sceneChanges = options.modifiers.map(modifier => `- ${SCENE_MODIFIER_TEXT[modifier]}`);
+    const note = options.note.trim();
+
+    return `
+**TASK: REALISTIC VEHICLE INTEGRATION**
+
+You are a master photo editor specializing in photorealistic compositing. You will be provided with a single composite image containing a background scene with a vehicle placed on top of it.
+
+**YOUR SOLE OBJECTIVE:** Make the vehicle look like it naturally belongs in the background scene by realistically blending it.
+
+**MANDATORY RULES:**
+1.  **PRESERVE THE BACKGROUND:** The background scene within the provided image is **PERFECT** and **MUST NOT BE ALTERED, REPLACED, OR MODIFIED IN ANY WAY**${sceneChanges.length > 0 ? ', except for the scene changes listed below' : ''}.
+2.  **PRESERVE VEHICLE PLACEMENT:** The vehicle's position, size, and orientation are **FIXED** and **MUST NOT BE CHANGED.**
+
+**YOUR ONLY ALLOWED ACTIONS:**
+${actions.join('\n')}
+${restrictions.length > 0 ? `\n**RESTRICTIONS:**\n${restrictions.join('\n')}\n` : ''}${sceneChanges.length > 0 ? `\n**SCENE CHANGES:** Apply these to the whole image, including the vehicle's lighting.\n${sceneChanges.join('\n')}\n` : ''}${note ? `\n**ADDITIONAL NOTES FROM THE USER:** ${note}\n` : ''}
+The final output MUST be the original image, but with the vehicle seamlessly blended. Return ONLY the final photorealistic image.
+`;
+};
+
+const DIRECTION_DESCRIPTIONS: Record<VehicleDirection, string> = {
+    [VehicleDirection.Front]: 'a straight-on front view, with the vehicle facing the camera',
+    [VehicleDirection.FrontRight]: 'a front three-quarter view, with the front of the vehicle turned 45 degrees toward the right of the frame',
+    [VehicleDirection.Right]: 'a side profile, with the front of the vehicle pointing to the right of the frame',
+    [VehicleDirection.RearRight]: 'a rear three-quarter view, with the front of the vehicle turned 135 degrees away from the camera toward the right of the frame',
+    [VehicleDirection.Rear]: 'a straight-on rear view, with the vehicle facing away from the camera',
+    [VehicleDirection.RearLeft]: 'a rear three-quarter view, with the front of the vehicle turned 135 degrees away from the camera toward the left of the frame',
+    [VehicleDirection.Left]: 'a side profile, with the front of the vehicle pointing to the left of the frame',
+    [VehicleDirection.FrontLeft]: 'a front three-quarter view, with the front of the vehicle turned 45 degrees toward the left of the frame',
+};
+
+export const buildReorientationPrompt = (direction: VehicleDirection) => `
+**TASK: VEHICLE VIEWPOINT CHANGE**
+
+You will be provided with an image of a single vehicle on a transparent background.
+
+**YOUR OBJECTIVE:** Render the **same** vehicle from a new viewpoint: ${DIRECTION_DESCRIPTIONS[direction]}.
+
+**MANDATORY RULES:**
+1.  **PRESERVE IDENTITY:** Keep the make, model, body shape, paint color, wheels, trim, badges and any visible modifications exactly as they are. Do not add, remove or restyle anything.
+2.  **CONSISTENT CAMERA:** Use the same camera height and a similar focal length as the original photo.
+3.  **TRANSPARENT BACKGROUND:** Output only the vehicle on a 100% transparent background, with no ground, shadow or scenery.
+4.  **CROP TIGHTLY:** Crop the image to the vehicle's bounds with minimal transparent padding.
+
+The final output **MUST** be a PNG image of **ONLY** the vehicle on a fully transparent background, cropped to its bounds.
+`;
@@ -0,0 +1,131 @@
+import { GoogleGenAI, Modality, type GenerateContentResponse } from "@google/genai";
+import type { FileInfo } from '../../types';
+import type { ImageModelProvider, ProviderCallOptions } from './types';
+import { EXTRACTION_PROMPT, buildBlendPrompt, buildReorientationPrompt } from '../prompts';
+import {
+    ConfigurationError,
+    InvalidInputError,
+    ModelRefusedError,
+    NoImageReturnedError,
+    SafetyBlockedError,
+} from '../errors';
+
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+interface GeminiProviderOptions {
+    apiKey?: string;
+    model?: string;
+}
+
+const base64ToInlineData = (fileInfo: FileInfo) => {
+    const [header, data] = fileInfo.base64.split(',');
+    if (!header || !data) {
+        throw new InvalidInputError("The image is not a valid base64 data URL.");
+    }
+    const mimeType = header.match(/:(.*?);/)?.[1] ?? fileInfo.type;
+    return {
+        inlineData: {
+            mimeType,
+            data,
+        },
+    };
+};
+
+const SAFETY_REASONS = new Set([
+    'SAFETY',
+    'BLOCKLIST',
+    'PROHIBITED_CONTENT',
+    'SPII',
+    'IMAGE_SAFETY',
+    'IMAGE_PROHIBITED_CONTENT',
+    'MODEL_ARMOR',
+]);
+
+/**
+ * Turns a response without image data into the most specific error we can
+ * tell from the prompt feedback, finish reason and any text the model sent.
+ */
+const explainMissingImage = (response: GenerateContentResponse, stage: string): Error => {
+    const blockReason = response?.promptFeedback?.blockReason;
+    if (blockReason) {
+        return new SafetyBlockedError(`The request was blocked during ${stage} (${blockReason}).`, blockReason);
+    }
+
+    const candidate = response?.candidates?.[0];
+    if (!candidate) {
+        return new NoImageReturnedError(`No image was generated by the API during ${stage}.`);
+    }
+
+    const finishReason = candidate.finishReason;
+    if (finishReason && SAFETY_REASONS.has(finishReason)) {
+        return new SafetyBlockedError(`The model declined to produce an image during ${stage} (${finishReason}).`, finishReason);
+    }
+
+    const text = candidate.content?.parts?.map(part => part.text).filter(Boolean).join(' ').trim();
+    if (text || (finishReason && finishReason !== 'STOP')) {
+        return new ModelRefusedError(
+            `The model returned no image during ${stage}${finishReason ? ` (${finishReason})` : ''}.`,
+            finishReason,
+            text || undefined,
+        );
+    }
+
+    return new NoImageReturnedError(`No image was generated by the API during ${stage}.`);
+};
+
+export const createGeminiProvider = ({
+    apiKey,
+    model = GEMINI_IMAGE_MODEL,
+}: GeminiProviderOptions): ImageModelProvider => {
+    let ai: GoogleGenAI | null = null;
+
+    // The client is created on first use so a missing key only fails the
+    // request that needs it instead of the whole app at import time.
+    const getClient = () => {
+        if (!apiKey) {
+            throw new ConfigurationError("GEMINI_API_KEY is not set.");
+        }
+        ai ??= new GoogleGenAI({ apiKey });
+        return ai;
+    };
+
+    const generateImage = async (
+        prompt: string,
+        image: FileInfo,
+        stage: string,
+        { signal }: ProviderCallOptions = {},
+    ): Promise<string> => {
+        const imagePart = base64ToInlineData(image);
+
+        const response = await getClient().models.generateContent({
+            model,
+            contents: {
+                parts: [{ text: prompt }, imagePart],
+            },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal: signal,
+            },
+        });
+
+        const parts = response?.candidates?.[0]?.content?.parts;
+        if (parts) {
+            for (const part of parts) {
+                if (part.inlineData) {
+                    const base64ImageBytes: string = part.inlineData.data;
+                    return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
+                }
+            }
+        }
+
+        throw explainMissingImage(response, stage);
+    };
+
+    return {
+        name: 'gemini',
+        model,
+        extractVehicle: (subjectVehicle, options) => generateImage(EXTRACTION_PROMPT, subjectVehicle, 'extraction', options),
+        reorientVehicle: (cutout, direction, options) => generateImage(buildReorientationPrompt(direction), cutout, 'reorientation', options),
+        blendVehicleIntoScene: (compositeImage, blendOptions, options) => generateImage(buildBlendPrompt(blendOptions), compositeImage, 'blending', options),
+    };
+};
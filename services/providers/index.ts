@@ -0,0 +1,32 @@
+import type { ImageModelProvider, ImageProviderName } from './types';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import { ConfigurationError } from '../errors';
+
+export type { ImageModelProvider, ImageProviderName } from './types';
+
+// The app never talks to Gemini itself: that would need the API key in the
+// browser. Node code sets a Gemini provider with `setImageProvider` instead.
+const resolveProviderName = (): Exclude<ImageProviderName, 'gemini'> => {
+    const configured = (process.env.IMAGE_PROVIDER || 'proxy').toLowerCase();
+    if (configured !== 'proxy' && configured !== 'mock') {
+        throw new ConfigurationError(`Unknown IMAGE_PROVIDER "${configured}". Expected "proxy" or "mock".`);
+    }
+    return configured;
+};
+
+let activeProvider: ImageModelProvider | null = null;
+
+export const getImageProvider = (): ImageModelProvider => {
+    if (!activeProvider) {
+        // The mock pauses briefly so loading states stay visible in demos.
+        activeProvider = resolveProviderName() === 'mock'
+            ? createMockProvider({ latencyMs: 800 })
+            : createProxyProvider({ baseUrl: process.env.IMAGE_API_URL || undefined });
+    }
+    return activeProvider;
+};
+
+export const setImageProvider = (provider: ImageModelProvider | null) => {
+    activeProvider = provider;
+};
@@ -0,0 +1,16 @@
+const svgToDataUrl = (svg: string) => `data:image/svg+xml;base64,${btoa(svg.trim())}`;
+
+/**
+ * A side-on sedan silhouette on a transparent background, standing in for a
+ * tightly cropped extraction result.
+ */
+export const MOCK_VEHICLE_CUTOUT = svgToDataUrl(`
+<svg xmlns="http://www.w3.org/2000/svg" width="640" height="240" viewBox="0 0 640 240">
+  <path d="M40 170 L40 130 Q44 112 70 108 L170 98 L240 44 Q254 34 276 34 L420 34 Q444 34 460 50 L520 104 L590 114 Q616 120 620 142 L620 170 Z" fill="#b91c1c"/>
+  <path d="M256 52 L230 98 L330 98 L330 52 Z M346 52 L346 98 L480 98 L440 58 Q432 52 420 52 Z" fill="#93c5fd" fill-opacity="0.85"/>
+  <circle cx="150" cy="176" r="44" fill="#111827"/>
+  <circle cx="150" cy="176" r="22" fill="#9ca3af"/>
+  <circle cx="500" cy="176" r="44" fill="#111827"/>
+  <circle cx="500" cy="176" r="22" fill="#9ca3af"/>
+</svg>
+`);
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createMockProvider } from './mockProvider';
+import { MOCK_VEHICLE_CUTOUT } from './mockFixtures';
+import { CancelledError } from '../errors';
+import { DEFAULT_BLEND_OPTIONS } from '../blendOptions';
+
+const PHOTO = { name: 'car.png', type: 'image/png', size: 0, base64: 'data:image/png;base64,' };
+
+describe('createMockProvider', () => {
+    it('returns the fixture cutout', async () => {
+        expect(await createMockProvider().extractVehicle(PHOTO)).toBe(MOCK_VEHICLE_CUTOUT);
+    });
+
+    it('rejects a signal that is already aborted', async () => {
+        const provider = createMockProvider({ latencyMs: 10 });
+        await expect(provider.extractVehicle(PHOTO, { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(CancelledError);
+    });
+
+    it('stops listening to the signal once the delay is over', async () => {
+        const controller = new AbortController();
+        const listeners = new Set<EventListenerOrEventListenerObject>();
+        const add = controller.signal.addEventListener.bind(controller.signal);
+        const remove = controller.signal.removeEventListener.bind(controller.signal);
+        controller.signal.addEventListener = ((type: string, listener: EventListenerOrEventListenerObject, options?: AddEventListenerOptions) => {
+            listeners.add(listener);
+            add(type, listener, options);
+        }) as AbortSignal['addEventListener'];
+        controller.signal.removeEventListener = ((type: string, listener: EventListenerOrEventListenerObject) => {
+            listeners.delete(listener);
+            remove(type, listener);
+        }) as AbortSignal['removeEventListener'];
+
+        const provider = createMockProvider({ latencyMs: 1 });
+        for (let i = 0; i < 3; i++) await provider.blendVehicleIntoScene(PHOTO, DEFAULT_BLEND_OPTIONS, { signal: controller.signal });
+        expect(listeners.size).toBe(0);
+    });
+});
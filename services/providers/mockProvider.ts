@@ -0,0 +1,46 @@
+import type { ImageModelProvider } from './types';
+import { MOCK_VEHICLE_CUTOUT } from './mockFixtures';
+import { CancelledError } from '../errors';
+
+interface MockProviderOptions {
+    latencyMs?: number;
+}
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new CancelledError());
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Offline provider for QA and demos. Extraction always returns the same
+ * fixture cutout, while re-orientation and blending return their input
+ * unchanged, so results are deterministic and no network access or
+ * credentials are needed.
+ */
+export const createMockProvider = ({ latencyMs = 0 }: MockProviderOptions = {}): ImageModelProvider => ({
+    name: 'mock',
+    model: 'fixtures',
+    extractVehicle: async (_subjectVehicle, options) => {
+        await delay(latencyMs, options?.signal);
+        return MOCK_VEHICLE_CUTOUT;
+    },
+    reorientVehicle: async (cutout, _direction, options) => {
+        await delay(latencyMs, options?.signal);
+        return cutout.base64;
+    },
+    blendVehicleIntoScene: async (compositeImage, _blendOptions, options) => {
+        await delay(latencyMs, options?.signal);
+        return compositeImage.base64;
+    },
+});
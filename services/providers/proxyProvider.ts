@@ -0,0 +1,57 @@
+import type { FileInfo } from '../../types';
+import type { ImageModelProvider, ProviderCallOptions } from './types';
+import { fromErrorPayload, NoImageReturnedError, parseRetryAfterMs, toServiceError } from '../errors';
+
+interface ProxyProviderOptions {
+    /** Where the proxy server's `/extract`, `/reorient` and `/blend` endpoints live. */
+    baseUrl?: string;
+}
+
+// The server only needs the image itself; prompts and the key stay on its side.
+const toImageBody = (image: FileInfo) => ({ name: image.name, base64: image.base64 });
+
+/**
+ * Runs the image operations through the proxy server, which holds the API
+ * key. Failures come back in the service error taxonomy, so retries and
+ * error messages behave as they do with a direct provider.
+ */
+export const createProxyProvider = ({ baseUrl = '/api' }: ProxyProviderOptions = {}): ImageModelProvider => {
+    const post = async (operation: string, body: object, { signal }: ProviderCallOptions = {}): Promise<string> => {
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl}/${operation}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+                signal,
+            });
+        } catch (e) {
+            throw toServiceError(e);
+        }
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+            if (payload?.error?.kind) {
+                const retryAfterMs = payload.error.retryAfterMs ?? parseRetryAfterMs(response.headers.get('Retry-After'));
+                throw fromErrorPayload({ ...payload.error, retryAfterMs });
+            }
+            const error = new Error(`The image server answered with HTTP ${response.status}.`);
+            throw toServiceError(Object.assign(error, { status: response.status, headers: response.headers }));
+        }
+        if (typeof payload?.image !== 'string') {
+            throw new NoImageReturnedError("The image server's response had no image.");
+        }
+        return payload.image;
+    };
+
+    return {
+        name: 'proxy',
+        // The server picks the model; cached cutouts are keyed to the proxy as a whole.
+        model: 'server',
+        extractVehicle: (subjectVehicle, options) =>
+            post('extract', { image: toImageBody(subjectVehicle) }, options),
+        reorientVehicle: (cutout, direction, options) =>
+            post('reorient', { image: toImageBody(cutout), direction }, options),
+        blendVehicleIntoScene: (compositeImage, blendOptions, options) =>
+            post('blend', { image: toImageBody(compositeImage), blendOptions }, options),
+    };
+};
@@ -0,0 +1,21 @@
+import type { BlendOptions, FileInfo, VehicleDirection } from '../../types';
+
+export type ImageProviderName = 'gemini' | 'mock' | 'proxy';
+
+export interface ProviderCallOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend capable of running the image operations the app needs.
+ * Every operation resolves to a data URL of the produced image.
+ */
+export interface ImageModelProvider {
+  name: ImageProviderName;
+  /** The model behind the provider; cached results are only reused for the same one. */
+  model: string;
+  extractVehicle: (subjectVehicle: FileInfo, options?: ProviderCallOptions) => Promise<string>;
+  /** Re-renders an extracted cutout so the vehicle faces `direction`. */
+  reorientVehicle: (cutout: FileInfo, direction: VehicleDirection, options?: ProviderCallOptions) => Promise<string>;
+  blendVehicleIntoScene: (compositeImage: FileInfo, blendOptions: BlendOptions, options?: ProviderCallOptions) => Promise<string>;
+}
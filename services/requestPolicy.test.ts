@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runWithPolicy, type RetryInfo } from './requestPolicy';
+import { CancelledError, InvalidInputError, NetworkError, QuotaError, TimeoutError } from './errors';
+
+const POLICY = { timeoutMs: 1_000, maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1_000 };
+
+// Never settles on its own; only the policy's abort ends it.
+const hang = () => new Promise<never>(() => {});
+
+beforeEach(() => {
+    vi.useFakeTimers();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('runWithPolicy', () => {
+    it('retries transient failures with growing backoff', async () => {
+        const retries: RetryInfo[] = [];
+        const operation = vi.fn()
+            .mockRejectedValueOnce(new NetworkError("offline"))
+            .mockRejectedValueOnce(new NetworkError("offline"))
+            .mockResolvedValue('done');
+
+        const result = runWithPolicy(operation, { policy: POLICY, onRetry: info => retries.push(info) });
+        await vi.runAllTimersAsync();
+
+        expect(await result).toBe('done');
+        expect(operation).toHaveBeenCalledTimes(3);
+        expect(retries.map(r => r.attempt)).toEqual([1, 2]);
+        // Equal jitter keeps each delay between half and all of 100ms, then 200ms.
+        expect(retries[0].delayMs).toBeGreaterThanOrEqual(50);
+        expect(retries[0].delayMs).toBeLessThanOrEqual(100);
+        expect(retries[1].delayMs).toBeGreaterThanOrEqual(100);
+        expect(retries[1].delayMs).toBeLessThanOrEqual(200);
+    });
+
+    it('waits as long as a quota error asks', async () => {
+        const retries: RetryInfo[] = [];
+        const operation = vi.fn()
+            .mockRejectedValueOnce(new QuotaError("slow down", 800))
+            .mockResolvedValue('done');
+
+        const result = runWithPolicy(operation, { policy: POLICY, onRetry: info => retries.push(info) });
+        await vi.advanceTimersByTimeAsync(799);
+        expect(operation).toHaveBeenCalledTimes(1);
+        await vi.runAllTimersAsync();
+
+        expect(await result).toBe('done');
+        expect(retries[0].delayMs).toBeGreaterThanOrEqual(800);
+    });
+
+    it('gives up when a quota error asks for a longer wait than the policy allows', async () => {
+        const onRetry = vi.fn();
+        const operation = vi.fn().mockRejectedValue(new QuotaError("daily limit reached", 3_600_000));
+
+        await expect(runWithPolicy(operation, { policy: POLICY, onRetry })).rejects.toBeInstanceOf(QuotaError);
+        expect(operation).toHaveBeenCalledTimes(1);
+        expect(onRetry).not.toHaveBeenCalled();
+    });
+
+    it("doesn't retry errors that can't succeed next time", async () => {
+        const operation = vi.fn().mockRejectedValue(new InvalidInputError("bad image"));
+        await expect(runWithPolicy(operation, { policy: POLICY })).rejects.toBeInstanceOf(InvalidInputError);
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up with the last error after the retry budget', async () => {
+        const operation = vi.fn().mockRejectedValue(new NetworkError("offline"));
+        const result = runWithPolicy(operation, { policy: POLICY });
+        const assertion = expect(result).rejects.toBeInstanceOf(NetworkError);
+        await vi.runAllTimersAsync();
+
+        await assertion;
+        expect(operation).toHaveBeenCalledTimes(POLICY.maxRetries + 1);
+    });
+
+    it('times out a stalled attempt and aborts its signal', async () => {
+        let signal: AbortSignal | undefined;
+        const result = runWithPolicy(s => {
+            signal = s;
+            return hang();
+        }, { policy: { ...POLICY, maxRetries: 0 } });
+        const assertion = expect(result).rejects.toBeInstanceOf(TimeoutError);
+        await vi.advanceTimersByTimeAsync(POLICY.timeoutMs);
+
+        await assertion;
+        expect(signal?.aborted).toBe(true);
+    });
+
+    it('retries after a timeout', async () => {
+        const operation = vi.fn()
+            .mockImplementationOnce(hang)
+            .mockResolvedValue('done');
+        const result = runWithPolicy(operation, { policy: POLICY });
+        await vi.runAllTimersAsync();
+
+        expect(await result).toBe('done');
+        expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('cancels a running attempt when the caller aborts', async () => {
+        const controller = new AbortController();
+        const operation = vi.fn(hang);
+        const result = runWithPolicy(operation, { policy: POLICY, signal: controller.signal });
+        const assertion = expect(result).rejects.toBeInstanceOf(CancelledError);
+        controller.abort();
+
+        await assertion;
+        await vi.runAllTimersAsync();
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('cancels while waiting to retry', async () => {
+        const controller = new AbortController();
+        const operation = vi.fn().mockRejectedValue(new NetworkError("offline"));
+        const result = runWithPolicy(operation, { policy: POLICY, signal: controller.signal });
+        const assertion = expect(result).rejects.toBeInstanceOf(CancelledError);
+        await vi.advanceTimersByTimeAsync(0);
+        controller.abort();
+
+        await assertion;
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't start when the signal is already aborted", async () => {
+        const operation = vi.fn();
+        await expect(runWithPolicy(operation, { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(CancelledError);
+        expect(operation).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,117 @@
+import { CancelledError, QuotaError, TimeoutError, toServiceError, type ServiceError } from './errors';
+
+export interface RequestPolicy {
+    /** Per-attempt timeout. */
+    timeoutMs: number;
+    /** Retries after the first attempt; 0 disables retrying. */
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+    policy?: Partial<RequestPolicy>;
+    onRetry?: (info: RetryInfo) => void;
+}
+
+export interface RetryInfo {
+    attempt: number;
+    maxRetries: number;
+    delayMs: number;
+    error: ServiceError;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+    timeoutMs: 90_000,
+    maxRetries: 3,
+    baseDelayMs: 1_000,
+    maxDelayMs: 30_000,
+};
+
+const backoffDelay = (attempt: number, policy: RequestPolicy): number => {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    // "Equal jitter": keep half the delay, randomize the other half.
+    return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new CancelledError());
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs a single attempt with its own timeout. The operation receives a signal
+ * that fires on either caller cancellation or timeout.
+ */
+const runAttempt = async <T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+    signal?: AbortSignal,
+): Promise<T> => {
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+
+    // Not every backend honours the signal, so race it as well.
+    const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => {
+            reject(timedOut ? new TimeoutError(timeoutMs) : new CancelledError());
+        }, { once: true });
+    });
+
+    try {
+        return await Promise.race([operation(controller.signal), aborted]);
+    } catch (e) {
+        if (controller.signal.aborted) {
+            throw timedOut ? new TimeoutError(timeoutMs) : new CancelledError();
+        }
+        throw e;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+export const runWithPolicy = async <T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    { signal, policy: overrides, onRetry }: RequestOptions = {},
+): Promise<T> => {
+    const policy = { ...DEFAULT_REQUEST_POLICY, ...overrides };
+
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) throw new CancelledError();
+        try {
+            return await runAttempt(operation, policy.timeoutMs, signal);
+        } catch (e) {
+            const error = toServiceError(e);
+            if (attempt >= policy.maxRetries || !error.retryable) throw error;
+
+            const hint = error instanceof QuotaError ? error.retryAfterMs : undefined;
+            // A quota that resets in minutes or hours is better reported than waited out.
+            if (hint !== undefined && hint > policy.maxDelayMs) throw error;
+            const delayMs = hint !== undefined
+                ? hint + Math.random() * 250
+                : backoffDelay(attempt, policy);
+            onRetry?.({ attempt: attempt + 1, maxRetries: policy.maxRetries, delayMs, error });
+            await sleep(delayMs, signal);
+        }
+    }
+};
@@ -11,3 +11,123 @@ export interface PinPosition {
   x: number;
   y: number;
 }
+
+/**
+ * A vehicle placement relative to the background image: `x`/`y` locate the
+ * vehicle's center as fractions of the background size, `scale` is the
+ * vehicle's width as a fraction of the background width, `rotation` is in
+ * degrees clockwise and `flipX` mirrors the vehicle horizontally. Being
+ * independent of screen pixels, the same placement drives both the on-screen
+ * preview and the full-resolution composite.
+ */
+export interface NormalizedPlacement {
+  x: number;
+  y: number;
+  scale: number;
+  rotation: number;
+  flipX: boolean;
+}
+
+/** Which way the vehicle faces, as seen by the camera. */
+export enum VehicleDirection {
+  Front = 'front',
+  FrontRight = 'front-right',
+  Right = 'right',
+  RearRight = 'rear-right',
+  Rear = 'rear',
+  RearLeft = 'rear-left',
+  Left = 'left',
+  FrontLeft = 'front-left',
+}
+
+/** One rendering of a vehicle; `direction` is null for the original extraction. */
+export interface VehicleVariant {
+  id: string;
+  direction: VehicleDirection | null;
+  src: string;
+  width: number;
+  height: number;
+  /**
+   * The variant this one is a mask edit of. The edited variant stays as it
+   * was, so history entries that used it still re-run with the same cutout.
+   */
+  replaces?: string;
+}
+
+export interface ExtractedVehicle {
+  id: string;
+  name: string;
+  /** The active variant's image and size. */
+  src: string;
+  width: number;
+  height: number;
+  /** The uploaded photo the vehicle was extracted from, used when refining the mask. */
+  source?: FileInfo;
+  variants?: VehicleVariant[];
+  activeVariantId?: string;
+}
+
+export interface VehicleLayer {
+  id: string;
+  vehicleId: string;
+  placement: NormalizedPlacement;
+  zIndex: number;
+}
+
+export type ShadowDirection = 'auto' | 'left' | 'right' | 'toward-camera' | 'away-from-camera';
+
+export type SceneModifier = 'wet-road' | 'dusk' | 'night' | 'overcast' | 'headlights-on';
+
+/**
+ * User controls for the blend step; the model prompt is built from these.
+ * Softness and strengths run from 0 to 1.
+ */
+export interface BlendOptions {
+  shadow: { enabled: boolean; softness: number; direction: ShadowDirection };
+  reflections: { enabled: boolean; strength: number };
+  colorMatch: { enabled: boolean; strength: number };
+  modifiers: SceneModifier[];
+  note: string;
+  /** Merge only the model's changes around the vehicles back into the original background. */
+  preserveBackground: boolean;
+}
+
+/** A blended image together with the options that produced it. */
+export interface GeneratedResult {
+  src: string;
+  blendOptions: BlendOptions;
+  createdAt: string;
+}
+
+/**
+ * One generation in the history, with the inputs needed to re-run it: the
+ * placed layers and, per vehicle, the variant that was active at the time.
+ */
+export interface GenerationEntry extends GeneratedResult {
+  id: string;
+  layers: VehicleLayer[];
+  variantIds: Record<string, string>;
+  favorite: boolean;
+  /** Percentage of the background the model changed; see services/fidelity. */
+  drift?: number;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchBackground {
+  id: string;
+  file: FileInfo;
+  placement: NormalizedPlacement;
+}
+
+export interface BatchItem {
+  id: string;
+  vehicleId: string;
+  backgroundId: string;
+  status: BatchItemStatus;
+  result?: string;
+  /** The placement and options the result was generated with. */
+  placement?: NormalizedPlacement;
+  blendOptions?: BlendOptions;
+  error?: string;
+}
@@ -0,0 +1,3 @@
+/** A JSON-style object whose fields still need checking. Arrays don't count. */
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
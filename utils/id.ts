@@ -0,0 +1,6 @@
+let counter = 0;
+
+export const createId = (prefix: string): string => {
+  counter += 1;
+  return `${prefix}-${Date.now().toString(36)}-${counter.toString(36)}`;
+};
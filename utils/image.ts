@@ -0,0 +1,83 @@
+import { CompositingError, InvalidInputError } from '../services/errors';
+
+/**
+ * Where canvases and decoded images come from: the DOM in the browser. The
+ * Node entry point swaps in a server-side canvas with the same drawing API.
+ */
+export interface CanvasBackend {
+  createCanvas: (width: number, height: number) => HTMLCanvasElement;
+  loadImage: (src: string) => Promise<HTMLImageElement>;
+}
+
+const browserCanvasBackend: CanvasBackend = {
+  createCanvas: (width, height) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  },
+  loadImage: src => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  }),
+};
+
+let canvasBackend = browserCanvasBackend;
+
+export const setCanvasBackend = (backend: CanvasBackend | null) => {
+  canvasBackend = backend ?? browserCanvasBackend;
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  canvasBackend.loadImage(src).catch(() => {
+    throw new InvalidInputError("The image could not be decoded.");
+  });
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const [, data] = dataUrl.split(',');
+  const binary = atob(data ?? '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const extensionForDataUrl = (dataUrl: string): string => {
+  const mimeType = dataUrl.match(/^data:(.*?);/)?.[1] ?? 'image/png';
+  if (mimeType === 'image/jpeg') return 'jpg';
+  return mimeType.split('/')[1]?.split('+')[0] ?? 'png';
+};
+
+/** A file name without its extension, reduced to characters safe in any file system. */
+export const baseName = (name: string) => name.replace(/\.[^.]+$/, '').replace(/[^a-z0-9_-]+/gi, '_');
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = canvasBackend.createCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new CompositingError("Could not create canvas context.");
+  return { canvas, ctx };
+};
+
+export const getImageData = (image: CanvasImageSource, width: number, height: number): ImageData => {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+export const imageDataToDataUrl = (imageData: ImageData): string => {
+  const { canvas, ctx } = createCanvas(imageData.width, imageData.height);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
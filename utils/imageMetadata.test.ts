@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { embedXmp } from './imageMetadata';
+import { crc32 } from './zip';
+
+const XMP = '<x:xmpmeta xmlns:x="adobe:ns:meta/">héllo</x:xmpmeta>';
+
+const encode = (mimeType: 'image/png' | 'image/jpeg') => {
+  const canvas = createCanvas(8, 6);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#36c';
+  ctx.fillRect(0, 0, 8, 6);
+  return new Uint8Array(mimeType === 'image/png' ? canvas.toBuffer('image/png') : canvas.toBuffer('image/jpeg', 90));
+};
+
+const text = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const decodes = async (bytes: Uint8Array) => {
+  const image = await loadImage(Buffer.from(bytes));
+  return { width: image.width, height: image.height };
+};
+
+// A simple-format lossless WebP header, as browsers' canvas encoders write it.
+const vp8lWebp = (width: number, height: number, alpha: boolean) => {
+  const bits = (width - 1) | ((height - 1) << 14) | ((alpha ? 1 : 0) << 28);
+  const data = [0x2f, bits & 0xff, (bits >>> 8) & 0xff, (bits >>> 16) & 0xff, (bits >>> 24) & 0xff, 0, 0, 0];
+  const bytes = new Uint8Array(20 + data.length);
+  const view = new DataView(bytes.buffer);
+  bytes.set([...'RIFF'].map(c => c.charCodeAt(0)), 0);
+  view.setUint32(4, bytes.length - 8, true);
+  bytes.set([...'WEBPVP8L'].map(c => c.charCodeAt(0)), 8);
+  view.setUint32(16, data.length, true);
+  bytes.set(data, 20);
+  return bytes;
+};
+
+describe('embedXmp', () => {
+  it('adds a valid iTXt chunk right after the PNG header', async () => {
+    const png = encode('image/png');
+    const out = embedXmp(png, 'image/png', XMP, 8, 6);
+
+    const view = new DataView(out.buffer, out.byteOffset);
+    const chunks: string[] = [];
+    for (let offset = 8; offset < out.length;) {
+      const length = view.getUint32(offset);
+      const type = text(out, offset + 4, 4);
+      expect(view.getUint32(offset + 8 + length)).toBe(crc32(out.subarray(offset + 4, offset + 8 + length)));
+      if (type === 'iTXt') {
+        const data = out.subarray(offset + 8, offset + 8 + length);
+        expect(new TextDecoder().decode(data.subarray('XML:com.adobe.xmp'.length + 5))).toBe(XMP);
+      }
+      chunks.push(type);
+      offset += 12 + length;
+    }
+    expect(chunks.slice(0, 2)).toEqual(['IHDR', 'iTXt']);
+    expect(await decodes(out)).toEqual({ width: 8, height: 6 });
+  });
+
+  it('adds an XMP APP1 segment to a JPEG', async () => {
+    const jpeg = encode('image/jpeg');
+    const out = embedXmp(jpeg, 'image/jpeg', XMP, 8, 6);
+
+    const view = new DataView(out.buffer, out.byteOffset);
+    let xmp: string | null = null;
+    // Walk the segments up to the image data.
+    for (let offset = 2; view.getUint16(offset) !== 0xffda;) {
+      expect(out[offset]).toBe(0xff);
+      const length = view.getUint16(offset + 2);
+      const payload = out.subarray(offset + 4, offset + 2 + length);
+      if (out[offset + 1] === 0xe1 && text(payload, 0, 29) === 'http://ns.adobe.com/xap/1.0/\0') {
+        xmp = new TextDecoder().decode(payload.subarray(29));
+      }
+      offset += 2 + length;
+    }
+    expect(xmp).toBe(XMP);
+    expect(await decodes(out)).toEqual({ width: 8, height: 6 });
+  });
+
+  it.each([
+    ['with', true, 0x14],
+    ['without', false, 0x04],
+  ])('extends a lossless WebP %s alpha and flags it to match', (_, alpha, flags) => {
+    const webp = vp8lWebp(8, 6, alpha);
+    const out = embedXmp(webp, 'image/webp', XMP, 8, 6);
+    const view = new DataView(out.buffer, out.byteOffset);
+
+    expect(text(out, 12, 4)).toBe('VP8X');
+    expect(out[20]).toBe(flags);
+    expect(view.getUint32(4, true)).toBe(out.length - 8);
+    // The canvas size is stored minus one, in 24 bits each.
+    expect([out[24], out[27]]).toEqual([7, 5]);
+    expect(text(out, 30, 4)).toBe('VP8L');
+    const xmpAt = 30 + webp.length - 12;
+    expect(text(out, xmpAt, 4)).toBe('XMP ');
+    expect(new TextDecoder().decode(out.subarray(xmpAt + 8, xmpAt + 8 + view.getUint32(xmpAt + 4, true)))).toBe(XMP);
+  });
+
+  it('sets only the XMP flag on an extended WebP', () => {
+    const canvas = createCanvas(8, 6);
+    canvas.getContext('2d').fillRect(0, 0, 4, 6);
+    const webp = new Uint8Array(canvas.toBuffer('image/webp'));
+    const out = embedXmp(webp, 'image/webp', XMP, 8, 6);
+    expect(out[20]).toBe(webp[20] | 0x04);
+    expect(out.subarray(21, webp.length)).toEqual(webp.subarray(21));
+  });
+
+  it.each([
+    ['image/png', encode('image/jpeg')],
+    ['image/png', encode('image/png').subarray(0, 20)],
+    ['image/jpeg', encode('image/png')],
+    ['image/jpeg', new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0xff, 0xff])],
+    ['image/webp', encode('image/png')],
+    ['image/webp', vp8lWebp(8, 6, false).subarray(0, 22)],
+  ])("returns a %s that doesn't match its type unchanged", (mimeType, bytes) => {
+    expect(embedXmp(bytes, mimeType, XMP, 8, 6)).toBe(bytes);
+  });
+});
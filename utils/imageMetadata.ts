@@ -0,0 +1,115 @@
+import { crc32 } from './zip';
+
+const XMP_JPEG_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/**
+ * PNG: an uncompressed iTXt chunk right after IHDR, which is always the first
+ * chunk. Returns null if the file doesn't start that way.
+ */
+const embedInPng = (bytes: Uint8Array, xmp: Uint8Array): Uint8Array | null => {
+  if (bytes.length < 33 || PNG_SIGNATURE.some((byte, i) => bytes[i] !== byte) || readAscii(bytes, 12, 4) !== 'IHDR') return null;
+  const ihdrEnd = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  if (ihdrEnd > bytes.length) return null;
+
+  const data = concat([ascii(XMP_PNG_KEYWORD), new Uint8Array([0, 0, 0, 0, 0]), xmp]);
+  const typeAndData = concat([ascii('iTXt'), data]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return concat([bytes.subarray(0, ihdrEnd), chunk, bytes.subarray(ihdrEnd)]);
+};
+
+/**
+ * JPEG: an APP1 segment after SOI and the JFIF APP0 header, if there is one.
+ * Returns null if the file doesn't start with SOI.
+ */
+const embedInJpeg = (bytes: Uint8Array, xmp: Uint8Array): Uint8Array | null => {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const insertAt = view.getUint16(2) === 0xffe0 && bytes.length >= 6 ? 4 + view.getUint16(4) : 2;
+  if (insertAt > bytes.length) return null;
+
+  const payload = concat([ascii(XMP_JPEG_NAMESPACE), xmp]);
+  if (payload.length + 2 > 0xffff) return null;
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1], 0);
+  new DataView(segment.buffer).setUint16(2, payload.length + 2);
+  segment.set(payload, 4);
+  return concat([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+/**
+ * WebP: metadata needs the extended (VP8X) header. Canvas encoders emit the
+ * simple format, so the header is added with the XMP flag set, and the alpha
+ * flag copied from a lossless bitstream's header. Lossy WebP without VP8X
+ * never has alpha. Returns null if the file isn't a RIFF WebP.
+ */
+const embedInWebp = (bytes: Uint8Array, xmp: Uint8Array, width: number, height: number): Uint8Array | null => {
+  if (bytes.length < 20 || readAscii(bytes, 0, 4) !== 'RIFF' || readAscii(bytes, 8, 4) !== 'WEBP') return null;
+  const chunkHeader = (type: string, size: number) => {
+    const header = new Uint8Array(8);
+    header.set(ascii(type), 0);
+    new DataView(header.buffer).setUint32(4, size, true);
+    return header;
+  };
+  const xmpChunk = concat([chunkHeader('XMP ', xmp.length), xmp, new Uint8Array(xmp.length % 2)]);
+
+  let body = bytes.subarray(12);
+  const firstChunk = readAscii(body, 0, 4);
+  if (firstChunk === 'VP8X') {
+    if (body.length < 18) return null;
+    body = body.slice();
+    body[8] |= 0x04;
+  } else if (firstChunk === 'VP8 ' || firstChunk === 'VP8L') {
+    // VP8L header: signature byte, 14 bits each of width and height, then the alpha bit.
+    if (firstChunk === 'VP8L' && body.length < 13) return null;
+    const hasAlpha = firstChunk === 'VP8L' && (body[12] & 0x10) !== 0;
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = 0x04 | (hasAlpha ? 0x10 : 0);
+    vp8x.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4);
+    vp8x.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7);
+    body = concat([chunkHeader('VP8X', 10), vp8x, body]);
+  } else {
+    return null;
+  }
+
+  const riff = concat([ascii('RIFF'), new Uint8Array(4), ascii('WEBP'), body, xmpChunk]);
+  new DataView(riff.buffer).setUint32(4, riff.length - 8, true);
+  return riff;
+};
+
+/**
+ * Embeds an XMP packet into an encoded PNG, JPEG or WebP file. Other formats,
+ * and files that don't match their type's layout, are returned unchanged.
+ */
+export const embedXmp = (bytes: Uint8Array, mimeType: string, xmp: string, width: number, height: number): Uint8Array => {
+  const packet = new TextEncoder().encode(xmp);
+  switch (mimeType) {
+    case 'image/png':
+      return embedInPng(bytes, packet) ?? bytes;
+    case 'image/jpeg':
+      return embedInJpeg(bytes, packet) ?? bytes;
+    case 'image/webp':
+      return embedInWebp(bytes, packet, width, height) ?? bytes;
+    default:
+      return bytes;
+  }
+};
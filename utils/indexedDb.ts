@@ -0,0 +1,58 @@
+const DB_NAME = 'vehicle-background-swap';
+const DB_VERSION = 3;
+
+export const STORES = {
+  projects: 'projects',
+  backgrounds: 'backgrounds',
+  cutouts: 'cutouts',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of Object.values(STORES)) {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store);
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const idbGet = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify<T | undefined>(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const idbGetAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify<T[]>(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+export const idbPut = async <T>(store: StoreName, key: IDBValidKey, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
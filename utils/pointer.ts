@@ -0,0 +1,15 @@
+/**
+ * Follows a pointer until it is released. Window listeners keep the drag
+ * alive when the pointer leaves the handle, for mouse and touch alike.
+ */
+export const trackPointer = (onMove: (e: PointerEvent) => void, onEnd: () => void) => {
+  const handleUp = () => {
+    window.removeEventListener('pointermove', onMove);
+    window.removeEventListener('pointerup', handleUp);
+    window.removeEventListener('pointercancel', handleUp);
+    onEnd();
+  };
+  window.addEventListener('pointermove', onMove);
+  window.addEventListener('pointerup', handleUp);
+  window.addEventListener('pointercancel', handleUp);
+};
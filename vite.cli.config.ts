@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite';
+
+// Builds the Node API, the `swap` command and the image proxy server into
+// dist-cli. Unlike the app build, nothing from the environment is baked in:
+// it is read when they run.
+export default defineConfig({
+    build: {
+        ssr: true,
+        outDir: 'dist-cli',
+        target: 'node20',
+        rollupOptions: {
+            input: {
+                index: 'node/index.ts',
+                swap: 'node/cli.ts',
+                server: 'server/main.ts',
+            },
+            output: {
+                entryFileNames: '[name].js',
+                banner: chunk => chunk.name === 'swap' ? '#!/usr/bin/env node' : '',
+            },
+        },
+    },
+});
@@ -4,15 +4,26 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Model calls go to the proxy server, which keeps the API key. Never define it here:
+    // everything in `define` ends up readable in the browser bundle.
+    const apiProxy = {
+      '/api': `http://localhost:${env.PORT || 8787}`,
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.IMAGE_API_URL': JSON.stringify(env.IMAGE_API_URL),
+        'process.env.MAX_EXTRACTION_SIZE': JSON.stringify(env.MAX_EXTRACTION_SIZE),
+        'process.env.MAX_BLEND_SIZE': JSON.stringify(env.MAX_BLEND_SIZE)
       },
       resolve: {
         alias: {
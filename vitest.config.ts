@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests read the real environment instead of the values vite.config.ts
+// bakes into the app build.
+export default defineConfig({
+    test: {
+        environment: 'node',
+    },
+});